@@ -0,0 +1,149 @@
+/**
+ * Pub Changelog Page
+ * Lists pubs that opened, closed, moved or were renamed between snapshots
+ * of the London GIS pubs layer
+ */
+
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { usePubChanges } from "@/hooks/usePubChanges";
+import { formatDate, formatDistance } from "@/lib/utils/formatters";
+import type { PubChange, PubChangeSet, PubChangeType } from "@/types/pub";
+
+const CHANGE_LABELS: Record<PubChangeType, string> = {
+  added: "Added",
+  removed: "Removed",
+  reopened: "Reopened",
+  closed: "Closed",
+  renamed: "Renamed",
+  moved: "Moved",
+};
+
+const CHANGE_TYPES = Object.keys(CHANGE_LABELS) as PubChangeType[];
+
+const describeChange = (change: PubChange) => {
+  switch (change.type) {
+    case "renamed":
+      return `was ${change.previousName}`;
+    case "moved":
+      return `${formatDistance(change.distance ?? 0)} from where it was`;
+    default:
+      return null;
+  }
+};
+
+const ChangeSetSection = ({
+  changeSet,
+  types,
+}: {
+  changeSet: PubChangeSet;
+  types: PubChangeType[];
+}) => {
+  const changes = changeSet.changes.filter(({ type }) => types.includes(type));
+  if (changes.length === 0) return null;
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-lg font-bold">
+        {formatDate(changeSet.from)} – {formatDate(changeSet.to)}
+      </h2>
+      {types
+        .filter((type) => changes.some((change) => change.type === type))
+        .map((type) => (
+          <div key={type} className="mt-3">
+            <h3 className="font-semibold text-gray-700">
+              {CHANGE_LABELS[type]}
+            </h3>
+            <ul>
+              {changes
+                .filter((change) => change.type === type)
+                .map((change) => (
+                  <li
+                    key={change.pub.properties.objectid}
+                    className="border-b py-1 text-sm"
+                  >
+                    <span className="font-medium">
+                      {change.pub.properties.name}
+                    </span>
+                    <span className="text-gray-500">
+                      {" "}
+                      · {change.pub.properties.postcode} ·{" "}
+                      {change.pub.properties.borough_name}
+                    </span>
+                    {describeChange(change) && (
+                      <span className="text-gray-400">
+                        {" "}
+                        · {describeChange(change)}
+                      </span>
+                    )}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        ))}
+    </section>
+  );
+};
+
+export default function PubChangesPage() {
+  const { changeSets, isLoading, isError, error } = usePubChanges();
+  const [types, setTypes] = useState<PubChangeType[]>(CHANGE_TYPES);
+
+  const toggleType = (type: PubChangeType) =>
+    setTypes((prev) =>
+      prev.includes(type)
+        ? prev.filter((selected) => selected !== type)
+        : CHANGE_TYPES.filter(
+            (option) => option === type || prev.includes(option)
+          )
+    );
+
+  return (
+    <div className="mx-auto max-w-3xl p-6">
+      <header className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">
+          What&apos;s changed
+        </h1>
+        <p className="text-sm text-gray-600">
+          Pubs added to, removed from or edited in the London Datastore.{" "}
+          <Link href="/pub-map" className="text-blue-600 underline">
+            Back to the map
+          </Link>
+        </p>
+        <div className="mt-4 flex flex-wrap gap-2 text-sm">
+          {CHANGE_TYPES.map((type) => (
+            <label
+              key={type}
+              className="flex items-center gap-1 rounded-full border border-gray-300 px-3 py-1"
+            >
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                onChange={() => toggleType(type)}
+              />
+              {CHANGE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </header>
+
+      {isLoading && <p className="text-gray-500">Loading changes...</p>}
+      {isError && <p className="text-red-600">{error?.message}</p>}
+      {!isLoading && !isError && changeSets.length === 0 && (
+        <p className="text-gray-500">
+          No changes yet. Changes are recorded each time the pubs are refreshed.
+        </p>
+      )}
+
+      {changeSets.map((changeSet) => (
+        <ChangeSetSection
+          key={`${changeSet.from}-${changeSet.to}`}
+          changeSet={changeSet}
+          types={types}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,72 +1,82 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 
 import MapContainer from "@/components/map/MapContainer";
 import MapProvider from "@/providers/MapProvider";
+import FitBounds from "@/components/map/FitBounds";
+import MeetingAreaLayer from "@/components/map/MeetingAreaLayer";
+import MeetingPointMarker from "@/components/map/MeetingPointMarker";
 import PubMarkers from "@/components/map/PubMarkers";
 import RoutePolyline from "@/components/map/RoutePolyline";
+import SearchRadiusLayer from "@/components/map/SearchRadiusLayer";
 import SearchTab from "@/components/ui/layouts/SearchTab";
 import { SkeletonLoader } from "@/components/ui";
 
 import { usePubData } from "@/hooks/usePubData";
 
-import { useRoutes } from "@/hooks/useRoutes";
-import type { GoogleRouteLegStep, IRouteRequestParams } from "@/types/routes";
-import {
-  getRouteMidpointByDuration,
-  filterPositionsWithinThreshold,
-} from "@/lib/utils/coordinates";
+import { useMeetupSearch } from "@/hooks/useMeetupSearch";
+import { usePubCrawl } from "@/hooks/usePubCrawl";
+import { getRouteErrorMessage } from "@/hooks/useRoutes";
+import type { IRouteRequestParams } from "@/types/routes";
 
 const Page = () => {
-  const { pubs, isLoading, isError, error, filteredCount, totalCount } =
-    usePubData();
+  const {
+    pubIndex,
+    isLoading,
+    isError,
+    error,
+    filteredCount,
+    totalCount,
+    dataSource,
+  } = usePubData();
+
+  const [routeRequestParams, setRouteRequestParams] =
+    useState<IRouteRequestParams>();
+  const [selectedAlternative, setSelectedAlternative] = useState<number | null>(
+    null
+  );
 
   const {
-    data: routeData,
+    participants,
+    alternatives,
+    activeAlternative,
+    midPoint,
+    meetingArea,
+    searchAreas,
+    nearbyPubs,
+    recommendedPubs,
+    routingRetryAfter,
     isLoading: isRouteLoading,
     isError: isRouteError,
     error: routeError,
-    getRoute,
-  } = useRoutes({ travelMode: "TRANSIT" });
-
-  const [routeRequestParams, setRouteRequestParams] = useState<{
-    pointA?: [number, number];
-    pointB?: [number, number];
-    mode: "transit" | "walking" | "cycling";
-  }>();
-
-  // Derive route steps directly from routeData instead of storing in state
-  const routeSteps = routeData?.routes?.[0]?.legs?.[0]?.steps ?? [];
-  const midPoint = getRouteMidpointByDuration(routeSteps);
-  const filteredPubsThresholdBool = midPoint
-    ? filterPositionsWithinThreshold(
-        midPoint,
-        pubs.map((pub) => pub.geometry.coordinates),
-        400
-      )
-    : new Array(pubs.length).fill(true);
-
-  const filteredPubs = pubs.filter(
-    (_, index) => filteredPubsThresholdBool[index]
+  } = useMeetupSearch(routeRequestParams, pubIndex, selectedAlternative);
+
+  const { crawl } = usePubCrawl(routeRequestParams, pubIndex);
+  const crawlSteps = useMemo(
+    () => crawl?.legs.flatMap(({ steps }) => steps) ?? [],
+    [crawl]
+  );
+  const crawlStops = useMemo(
+    () => crawl?.stops.map((pub) => pub.geometry.coordinates),
+    [crawl]
   );
 
+  // A crawl replaces the group's routes on the map
+  const shownAlternatives = crawl ? [] : alternatives;
+
+  // The preferred routes stand out until an alternative is chosen
+  const focusedAlternative = activeAlternative ?? 0;
+
   const handleRouteRequestChange = useCallback((req: IRouteRequestParams) => {
     setRouteRequestParams(req);
+    setSelectedAlternative(null);
   }, []);
 
-  // Fetch route on mount
-  useEffect(() => {
-    if (routeRequestParams?.pointA && routeRequestParams?.pointB && getRoute) {
-      const [startLng, startLat] = routeRequestParams.pointA;
-      const [endLng, endLat] = routeRequestParams.pointB;
-      getRoute(startLat, startLng, endLat, endLng);
-    }
-  }, [getRoute, routeRequestParams]);
-
   const pubCollection = {
     type: "FeatureCollection" as const,
-    features: filteredPubs,
+    // A crawl only shows the pubs it visits
+    features: crawl ? crawl.stops : nearbyPubs,
   };
 
   if (isLoading) {
@@ -82,20 +92,76 @@ const Page = () => {
         <div className="bg-gray-400 flex-1 flex flex-col desktop:flex-row">
           <div className="flex-1 h-full">
             <MapContainer showControls={true} showFullscreen={true}>
+              {meetingArea && (
+                <MeetingAreaLayer
+                  area={meetingArea}
+                  beforeId="pubs-unclustered"
+                />
+              )}
+              <SearchRadiusLayer
+                areas={searchAreas}
+                beforeId="pubs-unclustered"
+              />
               <PubMarkers data={pubCollection} enableClustering={false} />
-              {routeSteps && routeSteps.length > 0 && (
+              {crawl && (
                 <RoutePolyline
-                  steps={routeSteps}
-                  showTransitionMarkers={true}
-                  fitBounds
+                  id="crawl"
+                  steps={crawlSteps}
+                  stops={crawlStops}
                 />
               )}
+              {/* The focused alternative is drawn last so it sits on top */}
+              {[...shownAlternatives]
+                .sort(
+                  (a, b) =>
+                    Number(a.index === focusedAlternative) -
+                    Number(b.index === focusedAlternative)
+                )
+                .map((alternative) => {
+                  const isFocused = alternative.index === focusedAlternative;
+
+                  return alternative.steps.map(
+                    (steps, index) =>
+                      steps.length > 0 &&
+                      // Skip participants with no route of their own here
+                      (alternative.index === 0 ||
+                        steps !== alternatives[0].steps[index]) && (
+                        <RoutePolyline
+                          key={`${alternative.index}-${index}`}
+                          id={`route-${alternative.index}-${index}`}
+                          steps={steps}
+                          opacity={isFocused ? 1 : 0.3}
+                          showTransitionMarkers={isFocused}
+                        />
+                      )
+                  );
+                })}
+              {!crawl && midPoint && (
+                <MeetingPointMarker coordinates={midPoint} />
+              )}
+              <FitBounds coordinates={participants} />
             </MapContainer>
           </div>
           <div>
             <SearchTab
               onSearchChange={handleRouteRequestChange}
-              reccomendedPubs={midPoint && filteredPubs}
+              reccomendedPubs={recommendedPubs}
+              searchRadius={
+                searchAreas.length > 0
+                  ? Math.max(...searchAreas.map(({ radius }) => radius))
+                  : null
+              }
+              alternativeCount={alternatives.length}
+              activeAlternative={activeAlternative}
+              onAlternativeChange={setSelectedAlternative}
+              crawl={crawl}
+              routingRetryAfter={routingRetryAfter}
+              errorMessage={
+                isRouteError && routeError
+                  ? getRouteErrorMessage(routeError)
+                  : null
+              }
+              pubDataSource={dataSource}
             />
           </div>
         </div>
@@ -6,14 +6,33 @@
 "use client";
 
 import { usePubData } from "@/hooks/usePubData";
-import { MapContainer, PubMarkers } from "@/components/map";
+import { usePubChanges } from "@/hooks/usePubChanges";
+import {
+  MapContainer,
+  MapProvider,
+  PubMarkers,
+  RecentlyClosedLayer,
+  ViewportPubMarkers,
+} from "@/components/map";
+import { formatDate } from "@/lib/utils/formatters";
 import type { PubFeature } from "@/types/pub";
+import Link from "next/link";
 import { useState } from "react";
 
 export default function PubMapPage() {
-  const { pubs, isLoading, isError, error, filteredCount, totalCount } =
-    usePubData();
+  const {
+    pubs,
+    isLoading,
+    isError,
+    error,
+    filteredCount,
+    totalCount,
+    dataSource,
+  } = usePubData();
+  const { recentlyClosed } = usePubChanges();
   const [selectedPub, setSelectedPub] = useState<PubFeature | null>(null);
+  const [showRecentlyClosed, setShowRecentlyClosed] = useState(false);
+  const [viewportOnly, setViewportOnly] = useState(false);
 
   const handlePubClick = (pub: PubFeature) => {
     console.log("Pub clicked:", pub.properties.name);
@@ -62,12 +81,39 @@ export default function PubMapPage() {
             <p className="text-sm text-gray-600">
               Showing {filteredCount.toLocaleString()} of{" "}
               {totalCount.toLocaleString()} pubs
+              {dataSource &&
+                (dataSource.source === "seed"
+                  ? " · sample pubs only, the London Datastore is unavailable"
+                  : ` · updated ${formatDate(dataSource.fetchedAt)}${
+                      dataSource.source === "bundled" ? " (offline copy)" : ""
+                    }`)}
             </p>
           </div>
           <div className="text-right">
             <div className="text-sm text-gray-600">
               Ticket 4.2: Pub Markers with Clustering
             </div>
+            <label className="mt-1 flex items-center justify-end gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showRecentlyClosed}
+                onChange={(event) =>
+                  setShowRecentlyClosed(event.target.checked)
+                }
+              />
+              Recently closed ({recentlyClosed.features.length})
+            </label>
+            <label className="mt-1 flex items-center justify-end gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={viewportOnly}
+                onChange={(event) => setViewportOnly(event.target.checked)}
+              />
+              Only pubs in view
+            </label>
+            <Link href="/changes" className="text-sm text-blue-600 underline">
+              What&apos;s changed
+            </Link>
             {selectedPub && (
               <div className="mt-1 text-sm font-medium text-blue-600">
                 Selected: {selectedPub.properties.name}
@@ -79,13 +125,25 @@ export default function PubMapPage() {
 
       {/* Map */}
       <div className="flex-1 relative">
-        <MapContainer showControls={true} showFullscreen={true}>
-          <PubMarkers
-            data={pubCollection}
-            onPubClick={handlePubClick}
-            enableClustering={false}
-          />
-        </MapContainer>
+        <MapProvider>
+          <MapContainer showControls={true} showFullscreen={true}>
+            {viewportOnly ? (
+              <ViewportPubMarkers
+                onPubClick={handlePubClick}
+                enableClustering={false}
+              />
+            ) : (
+              <PubMarkers
+                data={pubCollection}
+                onPubClick={handlePubClick}
+                enableClustering={false}
+              />
+            )}
+            {showRecentlyClosed && (
+              <RecentlyClosedLayer data={recentlyClosed} />
+            )}
+          </MapContainer>
+        </MapProvider>
       </div>
 
       {/* Info Footer */}
@@ -109,6 +167,10 @@ export default function PubMapPage() {
                 <span className="inline-block w-3 h-3 rounded-full bg-[#D4AF37]"></span>{" "}
                 Individual pubs
               </li>
+              <li>
+                <span className="inline-block w-3 h-3 rounded-full bg-[#808080] border-2 border-[#dc2626]"></span>{" "}
+                Recently closed
+              </li>
               <li>
                 <span className="inline-block w-3 h-3 rounded-full bg-[#51bbd6]"></span>{" "}
                 Small clusters (&lt;10)
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPubChanges } from "@/lib/services/pubChanges";
+import { filterPubChanges } from "@/lib/utils/pubDiff";
+import type { PubChangesAPIResponse, PubChangeType } from "@/types/pub";
+
+const CHANGE_TYPES: PubChangeType[] = [
+  "added",
+  "removed",
+  "reopened",
+  "closed",
+  "renamed",
+  "moved",
+];
+
+/**
+ * List changes to the pubs layer, newest first
+ * Filter with `type` (repeatable) and `since` (a date)
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<PubChangesAPIResponse>> {
+  const { searchParams } = request.nextUrl;
+  const types = searchParams.getAll("type");
+  const since = searchParams.get("since");
+
+  const unknownType = types.find(
+    (type) => !CHANGE_TYPES.includes(type as PubChangeType)
+  );
+  if (unknownType) {
+    return NextResponse.json(
+      { success: false, error: `Unknown change type: ${unknownType}` },
+      { status: 400 }
+    );
+  }
+  if (since && Number.isNaN(Date.parse(since))) {
+    return NextResponse.json(
+      { success: false, error: `Invalid date: ${since}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const changeSets = filterPubChanges(
+      await getPubChanges(),
+      types as PubChangeType[]
+    ).filter(({ to }) => !since || Date.parse(to) >= Date.parse(since));
+
+    return NextResponse.json(
+      { success: true, data: changeSets },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error in pub changes API:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LondonGISError } from "@/lib/services/londonGIS";
+import { getPubSnapshot, hashVersion } from "@/lib/services/pubSnapshot";
+import {
+  filterPubs,
+  pubFiltersFromSearchParams,
+  pubFiltersToSearchParams,
+} from "@/lib/utils/pubFilters";
+import type { PubsAPIResponse } from "@/types/pub";
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<PubsAPIResponse | null>> {
+  try {
+    const filters = pubFiltersFromSearchParams(request.nextUrl.searchParams);
+    const snapshot = await getPubSnapshot();
+
+    // The same filters on the same snapshot always give the same pubs
+    const etag = `"${snapshot.version}-${hashVersion(
+      pubFiltersToSearchParams(filters).toString()
+    )}"`;
+    const headers = {
+      ETag: etag,
+      // Browsers keep the response but check back every time
+      "Cache-Control": "public, no-cache",
+      "Last-Modified": new Date(snapshot.fetchedAt).toUTCString(),
+    };
+
+    const ifNoneMatch = request.headers.get("if-none-match");
+    if (
+      ifNoneMatch
+        ?.split(",")
+        .some((tag) => tag.trim().replace(/^W\//, "") === etag)
+    ) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          type: "FeatureCollection",
+          features: filterPubs(snapshot.pubs.features, filters),
+        },
+        source: { source: snapshot.source, fetchedAt: snapshot.fetchedAt },
+      },
+      { headers }
+    );
+  } catch (error) {
+    console.error("Error in pubs API:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: error instanceof LondonGISError ? 502 : 500 }
+    );
+  }
+}
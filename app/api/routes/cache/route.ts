@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import {
+  getRouteCacheStats,
+  type RouteCacheStats,
+} from "@/lib/services/routing";
+
+interface RouteCacheAPIResponse {
+  success: boolean;
+  data?: RouteCacheStats;
+  error?: string;
+}
+
+/**
+ * Report how well the server-side route cache is doing
+ */
+export async function GET(): Promise<NextResponse<RouteCacheAPIResponse>> {
+  return NextResponse.json(
+    { success: true, data: getRouteCacheStats() },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { GoogleRouteMatrixAPIResponse } from "@/types/routes";
+import { ROUTE_MATRIX_CONFIG } from "@/lib/constants";
+import {
+  checkRateLimit,
+  computeGoogleRouteMatrix,
+  computeLocalRouteMatrix,
+  getCachedRouteMatrix,
+  getClientId,
+  getRouteFixtureMode,
+  getRouteMatrixCacheKey,
+  isLocalRoutingEnabled,
+  setCachedRouteMatrix,
+  validateRouteMatrixRequest,
+} from "@/lib/services/routing";
+import { readJsonBody, routingErrorResponse, unavailable } from "../responses";
+
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<GoogleRouteMatrixAPIResponse>> {
+  try {
+    // Shares each client's rate limit with /api/routes
+    const rateLimited = checkRateLimit(getClientId(request.headers));
+    if (rateLimited !== null) {
+      return unavailable(
+        "Too many route requests - slow down and try again shortly",
+        "RATE_LIMITED",
+        rateLimited
+      );
+    }
+
+    const params = validateRouteMatrixRequest(await readJsonBody(request));
+    const travelMode = params.travelMode ?? "WALK";
+
+    // Google caps the number of origin x destination elements per request
+    const maxElements =
+      travelMode === "TRANSIT"
+        ? ROUTE_MATRIX_CONFIG.MAX_TRANSIT_ELEMENTS
+        : ROUTE_MATRIX_CONFIG.MAX_ELEMENTS;
+    const elementCount = params.origins.length * params.destinations.length;
+
+    if (elementCount > maxElements) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many route matrix elements: ${elementCount} (max ${maxElements} for ${travelMode})`,
+          code: "INVALID_REQUEST",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Development and tests can time synthetic routes with no network
+    if (isLocalRoutingEnabled()) {
+      return NextResponse.json(
+        { success: true, data: computeLocalRouteMatrix(params) },
+        { headers: { "X-Route-Cache": "BYPASS" } }
+      );
+    }
+
+    // Replayed matrices should stay exact, so skip the cache
+    const cacheKey =
+      getRouteFixtureMode() === "replay"
+        ? null
+        : getRouteMatrixCacheKey(params);
+    const cached = cacheKey ? getCachedRouteMatrix(cacheKey) : null;
+
+    if (cached) {
+      return NextResponse.json(
+        { success: true, data: cached },
+        { headers: { "X-Route-Cache": "HIT" } }
+      );
+    }
+
+    // Each attempt spends the budget. Stop routing when the client gives up,
+    // e.g. after changing the search.
+    const data = await computeGoogleRouteMatrix(params, request.signal);
+    if (cacheKey) {
+      setCachedRouteMatrix(cacheKey, travelMode, data);
+    }
+
+    return NextResponse.json(
+      { success: true, data },
+      { headers: { "X-Route-Cache": cacheKey ? "MISS" : "BYPASS" } }
+    );
+  } catch (error) {
+    return routingErrorResponse(error, request, "route matrix API");
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Routes API Responses
+ * Body parsing and error responses shared by the routes endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { RouteBudgetError, RoutingError } from "@/lib/services/routing";
+import type { RouteErrorCode } from "@/types/routing";
+
+/**
+ * Body of a failed routes API response
+ */
+export interface RouteErrorBody {
+  success: false;
+  error: string;
+  code?: RouteErrorCode;
+  retryAfter?: number;
+}
+
+/**
+ * Read a request's JSON body
+ * Malformed JSON fails validation like any other bad body
+ */
+export function readJsonBody(request: NextRequest): Promise<unknown> {
+  return request.json().catch(() => null);
+}
+
+/**
+ * Tell the client routing is unavailable and when to try again
+ */
+export function unavailable(
+  error: string,
+  code: RouteErrorCode,
+  retryAfter: number
+): NextResponse<RouteErrorBody> {
+  return NextResponse.json(
+    { success: false, error, code, retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+/**
+ * Answer a request that failed while routing
+ *
+ * @param endpoint - Names the endpoint in server logs
+ */
+export function routingErrorResponse(
+  error: unknown,
+  request: NextRequest,
+  endpoint: string
+): NextResponse<RouteErrorBody> {
+  // Nobody is waiting for the answer
+  if (request.signal.aborted) {
+    return NextResponse.json(
+      { success: false, error: "Request cancelled" },
+      { status: 499 }
+    );
+  }
+
+  if (error instanceof RouteBudgetError) {
+    return unavailable(error.message, error.code, error.exhausted.retryAfter);
+  }
+
+  if (error instanceof RoutingError) {
+    // Client mistakes are expected and not worth a stack trace
+    if ((error.statusCode ?? 500) >= 500) {
+      console.error(`Error in ${endpoint}:`, error);
+    }
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: error.statusCode ?? 500 }
+    );
+  }
+
+  console.error(`Error in ${endpoint}:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "An unexpected error occurred",
+      code: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * FitBounds Component
+ * Fits the map view to a set of coordinates whenever they change
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import mapboxgl from "mapbox-gl";
+import { useMap } from "../../providers/MapProvider";
+
+export interface FitBoundsProps {
+  /** Coordinates to keep in view as [lng, lat] tuples */
+  coordinates: [number, number][];
+  /** Padding around the bounds */
+  padding?: number;
+}
+
+export default function FitBounds({
+  coordinates,
+  padding = 50,
+}: FitBoundsProps) {
+  const { map, isLoaded } = useMap();
+
+  // Serialise so a new array with the same points doesn't refit the map
+  const coordinatesKey = JSON.stringify(coordinates);
+
+  useEffect(() => {
+    if (!map || !isLoaded) return;
+
+    const points: [number, number][] = JSON.parse(coordinatesKey);
+    if (points.length < 2) return;
+
+    const bounds = points.reduce(
+      (bounds, coord) => bounds.extend(coord),
+      new mapboxgl.LngLatBounds(points[0], points[0])
+    );
+
+    map.fitBounds(bounds, {
+      padding,
+      duration: 500,
+    });
+  }, [map, isLoaded, coordinatesKey, padding]);
+
+  // This component doesn't render anything visible
+  return null;
+}
@@ -0,0 +1,95 @@
+/**
+ * MeetingAreaLayer Component
+ * Renders the area every participant can reach as a filled map layer
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useMap } from "../../providers/MapProvider";
+
+export interface MeetingAreaLayerProps {
+  /** The shared reachable area */
+  area: GeoJSON.MultiPolygon;
+  /** Unique ID for this layer (allows multiple areas) */
+  id?: string;
+  /** Fill color */
+  color?: string;
+  /** Fill opacity (0-1) */
+  opacity?: number;
+  /** Existing layer to draw underneath, if it is on the map */
+  beforeId?: string;
+}
+
+export default function MeetingAreaLayer({
+  area,
+  id = "meeting-area",
+  color = "#22c55e", // Green
+  opacity = 0.2,
+  beforeId,
+}: MeetingAreaLayerProps) {
+  const { map, isLoaded } = useMap();
+
+  useEffect(() => {
+    if (!map || !isLoaded) return;
+
+    const sourceId = `${id}-source`;
+    const fillLayerId = `${id}-fill`;
+    const outlineLayerId = `${id}-outline`;
+
+    // Cleanup function
+    const cleanup = () => {
+      if (map.getLayer(outlineLayerId)) map.removeLayer(outlineLayerId);
+      if (map.getLayer(fillLayerId)) map.removeLayer(fillLayerId);
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    };
+
+    cleanup();
+
+    const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: {
+        type: "Feature",
+        properties: {},
+        geometry: area,
+      },
+    });
+
+    map.addLayer(
+      {
+        id: fillLayerId,
+        type: "fill",
+        source: sourceId,
+        paint: {
+          "fill-color": color,
+          "fill-opacity": opacity,
+        },
+      },
+      before
+    );
+
+    map.addLayer(
+      {
+        id: outlineLayerId,
+        type: "line",
+        source: sourceId,
+        paint: {
+          "line-color": color,
+          "line-width": 2,
+          "line-opacity": 0.8,
+        },
+      },
+      before
+    );
+
+    // Cleanup on unmount
+    return () => {
+      cleanup();
+    };
+  }, [map, isLoaded, area, id, color, opacity, beforeId]);
+
+  // This component doesn't render anything visible
+  return null;
+}
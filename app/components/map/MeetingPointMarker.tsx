@@ -0,0 +1,74 @@
+/**
+ * MeetingPointMarker Component
+ * Marks the computed meeting point that nearby pubs are searched around
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useMap } from "../../providers/MapProvider";
+
+export interface MeetingPointMarkerProps {
+  /** Meeting point as [lng, lat] */
+  coordinates: [number, number];
+  /** Unique identifier for the marker source and layer */
+  id?: string;
+  /** Marker colour */
+  color?: string;
+}
+
+export default function MeetingPointMarker({
+  coordinates,
+  id = "meeting-point",
+  color = "#f59e0b",
+}: MeetingPointMarkerProps) {
+  const { map, isLoaded } = useMap();
+
+  const [lng, lat] = coordinates;
+
+  useEffect(() => {
+    if (!map || !isLoaded) return;
+
+    const sourceId = `${id}-source`;
+    const layerId = `${id}-layer`;
+
+    const cleanup = () => {
+      if (map.getLayer(layerId)) map.removeLayer(layerId);
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    };
+
+    cleanup();
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Point",
+          coordinates: [lng, lat],
+        },
+      },
+    });
+
+    map.addLayer({
+      id: layerId,
+      type: "circle",
+      source: sourceId,
+      paint: {
+        "circle-radius": 9,
+        "circle-color": color,
+        "circle-stroke-width": 3,
+        "circle-stroke-color": "#ffffff",
+      },
+    });
+
+    // Cleanup on unmount
+    return () => {
+      cleanup();
+    };
+  }, [map, isLoaded, lng, lat, id, color]);
+
+  // This component doesn't render anything visible
+  return null;
+}
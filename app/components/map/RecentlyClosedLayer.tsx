@@ -0,0 +1,101 @@
+/**
+ * RecentlyClosedLayer Component
+ * Marks pubs that closed or left the pubs layer recently
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import mapboxgl from "mapbox-gl";
+import { useMap } from "../../providers/MapProvider";
+import { MARKER_CONFIG } from "@/lib/constants";
+import type { PubFeatureCollection } from "@/types/pub";
+
+export interface RecentlyClosedLayerProps {
+  /** Recently closed pubs */
+  data: PubFeatureCollection;
+  /** Unique identifier for the source and layer */
+  id?: string;
+}
+
+export default function RecentlyClosedLayer({
+  data,
+  id = "recently-closed",
+}: RecentlyClosedLayerProps) {
+  const { map, isLoaded } = useMap();
+
+  useEffect(() => {
+    if (!map || !isLoaded) return;
+
+    const sourceId = `${id}-source`;
+    const layerId = `${id}-points`;
+
+    const cleanup = () => {
+      if (map.getLayer(layerId)) map.removeLayer(layerId);
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    };
+
+    cleanup();
+
+    if (data.features.length === 0) return;
+
+    map.addSource(sourceId, { type: "geojson", data });
+
+    map.addLayer({
+      id: layerId,
+      type: "circle",
+      source: sourceId,
+      paint: {
+        "circle-color": MARKER_CONFIG.CLOSED_COLOR,
+        "circle-radius": ["interpolate", ["linear"], ["zoom"], 10, 4, 16, 8],
+        "circle-stroke-width": 2,
+        "circle-stroke-color": "#dc2626",
+      },
+    });
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      const feature = e.features?.[0];
+      if (!feature) return;
+
+      const coordinates = (
+        feature.geometry as GeoJSON.Point
+      ).coordinates.slice() as [number, number];
+
+      // Built from text nodes, so pub names can't inject markup
+      const content = document.createElement("div");
+      content.style.color = "black";
+      const name = document.createElement("h3");
+      name.style.fontWeight = "bold";
+      name.textContent = feature.properties?.name ?? "Unknown";
+      const status = document.createElement("p");
+      status.textContent = `Recently closed · ${feature.properties?.postcode ?? ""}`;
+      content.append(name, status);
+
+      new mapboxgl.Popup({ offset: 15, closeButton: true, closeOnClick: true })
+        .setLngLat(coordinates)
+        .setDOMContent(content)
+        .addTo(map);
+    };
+    const handleMouseEnter = () => {
+      map.getCanvas().style.cursor = "pointer";
+    };
+    const handleMouseLeave = () => {
+      map.getCanvas().style.cursor = "";
+    };
+
+    map.on("click", layerId, handleClick);
+    map.on("mouseenter", layerId, handleMouseEnter);
+    map.on("mouseleave", layerId, handleMouseLeave);
+
+    // Cleanup on unmount
+    return () => {
+      map.off("click", layerId, handleClick);
+      map.off("mouseenter", layerId, handleMouseEnter);
+      map.off("mouseleave", layerId, handleMouseLeave);
+      cleanup();
+    };
+  }, [map, isLoaded, data, id]);
+
+  // This component doesn't render anything visible
+  return null;
+}
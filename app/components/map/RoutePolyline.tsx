@@ -8,8 +8,7 @@
 import { useEffect, useRef, useMemo } from "react";
 import mapboxgl from "mapbox-gl";
 import { useMap } from "../../providers/MapProvider";
-import { decodePolyline } from "@/lib/utils/coordinates";
-import type { GoogleRouteLegStep } from "@/types/routes";
+import type { RouteStep } from "@/types/routing";
 
 /**
  * Transport mode styling configuration
@@ -93,8 +92,8 @@ export interface TransitionPoint {
 }
 
 export interface RoutePolylineProps {
-  /** Route steps from Google Routes API */
-  steps: GoogleRouteLegStep[];
+  /** Route steps from any routing provider */
+  steps: RouteStep[];
   /** Unique ID prefix for this route */
   id?: string;
   /** Custom style overrides for transport modes */
@@ -103,6 +102,10 @@ export interface RoutePolylineProps {
   showTransitionMarkers?: boolean;
   /** Transition marker radius */
   transitionMarkerRadius?: number;
+  /** Stops along a multi-leg route to mark between the start and end [lng, lat] */
+  stops?: [number, number][];
+  /** Opacity of the whole route (0-1), used to fade routes out of focus */
+  opacity?: number;
   /** Whether to fit the map bounds to the route */
   fitBounds?: boolean;
   /** Padding when fitting bounds */
@@ -111,52 +114,6 @@ export interface RoutePolylineProps {
   onSegmentClick?: (segment: RouteSegment, index: number) => void;
 }
 
-/**
- * Detect transport mode from step data
- * Google Routes API may include mode info in navigationInstruction
- */
-function detectTransportMode(step: GoogleRouteLegStep): string {
-  // First check explicit travelMode
-  if (step.travelMode) {
-    return step.travelMode;
-  }
-
-  // Check navigation instruction for hints
-  const instruction =
-    step.navigationInstruction?.instructions?.toLowerCase() || "";
-
-  if (instruction.includes("walk") || instruction.includes("turn")) {
-    return "WALK";
-  }
-  if (instruction.includes("bus")) {
-    return "BUS";
-  }
-  if (
-    instruction.includes("train") ||
-    instruction.includes("rail") ||
-    instruction.includes("tube") ||
-    instruction.includes("underground")
-  ) {
-    return "TRAIN";
-  }
-  if (instruction.includes("subway") || instruction.includes("metro")) {
-    return "SUBWAY";
-  }
-
-  // Default based on maneuver
-  const maneuver = step.navigationInstruction?.maneuver;
-  if (
-    maneuver === "DEPART" ||
-    maneuver === "TURN_LEFT" ||
-    maneuver === "TURN_RIGHT" ||
-    maneuver === "STRAIGHT"
-  ) {
-    return "WALK";
-  }
-
-  return "TRANSIT";
-}
-
 /**
  * Get style for a transport mode
  */
@@ -181,6 +138,8 @@ export default function RoutePolyline({
   styleOverrides,
   showTransitionMarkers = true,
   transitionMarkerRadius = 6,
+  stops,
+  opacity = 1,
   fitBounds = false,
   fitBoundsPadding = 50,
   onSegmentClick,
@@ -200,28 +159,23 @@ export default function RoutePolyline({
     const allCoordinates: [number, number][] = [];
 
     steps.forEach((step, index) => {
-      const encodedPolyline = step.polyline?.encodedPolyline;
-      if (!encodedPolyline) return;
-
-      const coordinates = decodePolyline(encodedPolyline);
+      const { coordinates, travelMode } = step;
       if (coordinates.length === 0) return;
 
-      const travelMode = detectTransportMode(step);
       const style = getStyleForMode(travelMode, styleOverrides);
 
       segments.push({
         coordinates,
         travelMode,
         style,
-        instruction: step.navigationInstruction?.instructions,
+        instruction: step.instruction,
       });
 
       allCoordinates.push(...coordinates);
 
       // Add transition point if this is not the last segment
       if (index < steps.length - 1) {
-        const nextStep = steps[index + 1];
-        const nextMode = detectTransportMode(nextStep);
+        const nextMode = steps[index + 1].travelMode;
         const lastCoord = coordinates[coordinates.length - 1];
 
         // Only add transition if modes are different
@@ -297,7 +251,7 @@ export default function RoutePolyline({
         paint: {
           "line-color": "#ffffff",
           "line-width": segment.style.width + 2,
-          "line-opacity": 0.4,
+          "line-opacity": 0.4 * opacity,
         },
       });
 
@@ -305,7 +259,7 @@ export default function RoutePolyline({
       const paintConfig: mapboxgl.LinePaint = {
         "line-color": segment.style.color,
         "line-width": segment.style.width,
-        "line-opacity": 0.9,
+        "line-opacity": 0.9 * opacity,
       };
 
       if (segment.style.dashed && segment.style.dashPattern) {
@@ -378,7 +332,7 @@ export default function RoutePolyline({
         paint: {
           "circle-radius": transitionMarkerRadius + 2,
           "circle-color": "#ffffff",
-          "circle-opacity": 1,
+          "circle-opacity": opacity,
         },
       });
 
@@ -390,12 +344,12 @@ export default function RoutePolyline({
         paint: {
           "circle-radius": transitionMarkerRadius,
           "circle-color": "#1f2937", // Dark gray
-          "circle-opacity": 1,
+          "circle-opacity": opacity,
         },
       });
     }
 
-    // Add start and end markers
+    // Add start, stop and end markers
     if (allCoordinates.length >= 2) {
       const startEndSourceId = `${id}-start-end-source`;
       const startEndBorderLayerId = `${id}-start-end-border`;
@@ -415,6 +369,13 @@ export default function RoutePolyline({
               coordinates: allCoordinates[0],
             },
           },
+          ...(stops ?? []).map(
+            (coordinates): GeoJSON.Feature<GeoJSON.Point> => ({
+              type: "Feature",
+              properties: { type: "stop" },
+              geometry: { type: "Point", coordinates },
+            })
+          ),
           {
             type: "Feature",
             properties: { type: "end" },
@@ -439,7 +400,7 @@ export default function RoutePolyline({
         paint: {
           "circle-radius": 10,
           "circle-color": "#ffffff",
-          "circle-opacity": 1,
+          "circle-opacity": opacity,
         },
       });
 
@@ -455,11 +416,13 @@ export default function RoutePolyline({
             ["get", "type"],
             "start",
             "#22c55e", // Green for start
+            "stop",
+            "#f59e0b", // Amber for stops
             "end",
             "#ef4444", // Red for end
             "#6b7280", // Default gray
           ],
-          "circle-opacity": 1,
+          "circle-opacity": opacity,
         },
       });
     }
@@ -492,6 +455,8 @@ export default function RoutePolyline({
     id,
     showTransitionMarkers,
     transitionMarkerRadius,
+    stops,
+    opacity,
     fitBounds,
     fitBoundsPadding,
   ]);
@@ -0,0 +1,102 @@
+/**
+ * SearchRadiusLayer Component
+ * Outlines the circles around the meeting points that were searched for pubs
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useMap } from "../../providers/MapProvider";
+import { createCirclePolygon } from "@/lib/utils/geometry";
+import type { SearchArea } from "@/types/meetup";
+
+export interface SearchRadiusLayerProps {
+  /** Searched circles */
+  areas: SearchArea[];
+  /** Unique identifier for the source and layers */
+  id?: string;
+  /** Circle colour */
+  color?: string;
+  /** Existing layer to draw underneath, if it is on the map */
+  beforeId?: string;
+}
+
+export default function SearchRadiusLayer({
+  areas,
+  id = "search-radius",
+  color = "#f59e0b",
+  beforeId,
+}: SearchRadiusLayerProps) {
+  const { map, isLoaded } = useMap();
+
+  // Serialise so a new array with the same circles doesn't redraw the layer
+  const areasKey = JSON.stringify(areas);
+
+  useEffect(() => {
+    if (!map || !isLoaded) return;
+
+    const sourceId = `${id}-source`;
+    const fillLayerId = `${id}-fill`;
+    const outlineLayerId = `${id}-outline`;
+
+    const cleanup = () => {
+      if (map.getLayer(outlineLayerId)) map.removeLayer(outlineLayerId);
+      if (map.getLayer(fillLayerId)) map.removeLayer(fillLayerId);
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    };
+
+    cleanup();
+
+    const circles: SearchArea[] = JSON.parse(areasKey);
+    if (circles.length === 0) return;
+
+    const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+
+    map.addSource(sourceId, {
+      type: "geojson",
+      data: {
+        type: "FeatureCollection",
+        features: circles.map(({ center, radius }) => ({
+          type: "Feature",
+          properties: { radius },
+          geometry: createCirclePolygon(center, radius),
+        })),
+      },
+    });
+
+    map.addLayer(
+      {
+        id: fillLayerId,
+        type: "fill",
+        source: sourceId,
+        paint: {
+          "fill-color": color,
+          "fill-opacity": 0.08,
+        },
+      },
+      before
+    );
+
+    map.addLayer(
+      {
+        id: outlineLayerId,
+        type: "line",
+        source: sourceId,
+        paint: {
+          "line-color": color,
+          "line-width": 2,
+          "line-dasharray": [2, 2],
+        },
+      },
+      before
+    );
+
+    // Cleanup on unmount
+    return () => {
+      cleanup();
+    };
+  }, [map, isLoaded, areasKey, id, color, beforeId]);
+
+  // This component doesn't render anything visible
+  return null;
+}
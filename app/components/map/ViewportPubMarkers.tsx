@@ -0,0 +1,28 @@
+/**
+ * ViewportPubMarkers Component
+ * Renders only the pubs in view, loading them from London GIS as the map moves
+ */
+
+"use client";
+
+import { useViewportPubs } from "@/hooks/useViewportPubs";
+import type { PubFilters } from "@/types/pub";
+import PubMarkers, { type PubMarkersProps } from "./PubMarkers";
+
+export interface ViewportPubMarkersProps extends Omit<PubMarkersProps, "data"> {
+  /** Filters applied by the London GIS server */
+  filters?: PubFilters;
+  /** Lowest zoom that loads pubs */
+  minZoom?: number;
+}
+
+export default function ViewportPubMarkers({
+  filters,
+  minZoom,
+  sourceId = "viewport-pubs",
+  ...markerProps
+}: ViewportPubMarkersProps) {
+  const { pubs } = useViewportPubs({ filters, minZoom });
+
+  return <PubMarkers data={pubs} sourceId={sourceId} {...markerProps} />;
+}
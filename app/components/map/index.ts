@@ -12,6 +12,9 @@ export type { MapContainerProps } from "./MapContainer";
 export { default as PubMarkers } from "./PubMarkers";
 export type { PubMarkersProps } from "./PubMarkers";
 
+export { default as ViewportPubMarkers } from "./ViewportPubMarkers";
+export type { ViewportPubMarkersProps } from "./ViewportPubMarkers";
+
 export { default as Polyline } from "./Polyline";
 export type { PolylineProps } from "./Polyline";
 
@@ -26,5 +29,20 @@ export type {
   TransportModeStyle,
 } from "./RoutePolyline";
 
+export { default as FitBounds } from "./FitBounds";
+export type { FitBoundsProps } from "./FitBounds";
+
+export { default as MeetingAreaLayer } from "./MeetingAreaLayer";
+export type { MeetingAreaLayerProps } from "./MeetingAreaLayer";
+
+export { default as MeetingPointMarker } from "./MeetingPointMarker";
+export type { MeetingPointMarkerProps } from "./MeetingPointMarker";
+
+export { default as SearchRadiusLayer } from "./SearchRadiusLayer";
+export type { SearchRadiusLayerProps } from "./SearchRadiusLayer";
+
+export { default as RecentlyClosedLayer } from "./RecentlyClosedLayer";
+export type { RecentlyClosedLayerProps } from "./RecentlyClosedLayer";
+
 // TODO: Export other map components as they're implemented
 // export { default as NavigationControls } from './NavigationControls';
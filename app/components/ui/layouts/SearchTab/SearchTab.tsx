@@ -1,18 +1,48 @@
 "use client";
 
-import { ReactNode, useCallback, useEffect, useState } from "react";
+import { ReactNode, useCallback, useEffect, useRef, useState } from "react";
 
 import { twMerge } from "tailwind-merge";
 
 import { useDeviceFormat } from "@/hooks/useDeviceFormat";
-import { UI_CONFIG } from "@/lib/constants";
-import { IRouteRequestParams } from "@/types/routes";
+import { ERROR_MESSAGES, MEETUP_CONFIG, UI_CONFIG } from "@/lib/constants";
+import {
+  formatDate,
+  formatDistance,
+  formatDuration,
+} from "@/lib/utils/formatters";
+import type { LocationFeature } from "@/lib/utils/mapbox";
+import {
+  IRouteRequestParams,
+  JourneyTime,
+  JourneyTimeType,
+  MidpointMode,
+  TransportMode,
+} from "@/types/routes";
 
-import { Bike, BusFront, Footprints, ExternalLink } from "lucide-react";
+import {
+  Bike,
+  BusFront,
+  Footprints,
+  ExternalLink,
+  UserPlus,
+  X,
+} from "lucide-react";
 import MapSearchInput from "@/components/ui/organisms/MapSearchInput";
-import { PubFeature } from "@/types";
+import { MeetupParticipant, PubCrawl, RecommendedPub } from "@/types";
+import type { PubDataSourceInfo } from "@/types/pub";
 import Link from "next/link";
 
+let participantCount = 0;
+
+const createParticipant = (): MeetupParticipant => ({
+  id: `participant-${participantCount++}`,
+  mode: "transit",
+  weight: MEETUP_CONFIG.DEFAULT_TRAVEL_WEIGHT,
+});
+
+type ParticipantChange = Partial<Omit<MeetupParticipant, "id">>;
+
 const TransportButton = ({
   onClick,
   isSelected,
@@ -35,95 +65,633 @@ const TransportButton = ({
   );
 };
 
-const SearchTabContent = ({
-  className,
-  onSearchChange,
-  reccomendedPubs,
+const TRANSPORT_OPTIONS: { value: TransportMode; Icon: typeof Bike }[] = [
+  { value: "cycling", Icon: Bike },
+  { value: "walking", Icon: Footprints },
+  { value: "transit", Icon: BusFront },
+];
+
+const MIDPOINT_MODE_OPTIONS: { value: MidpointMode; label: string }[] = [
+  { value: "journey", label: "Journey time" },
+  { value: "crow", label: "As the crow flies" },
+  { value: "isochrone", label: "Within a time" },
+  { value: "corridor", label: "Along the way" },
+];
+
+type CorridorSort = "central" | "fair";
+
+const CORRIDOR_SORT_OPTIONS: { value: CorridorSort; label: string }[] = [
+  { value: "central", label: "Most central" },
+  { value: "fair", label: "Fairest" },
+];
+
+type JourneyTimeOption = JourneyTimeType | "now";
+
+const JOURNEY_TIME_OPTIONS: { value: JourneyTimeOption; label: string }[] = [
+  { value: "now", label: "Leave now" },
+  { value: "departure", label: "Leave at" },
+  { value: "arrival", label: "Arrive by" },
+];
+
+const SegmentedToggle = <T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => {
+  return (
+    <div className="flex w-full rounded-lg border border-gray-300 p-1 text-sm">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={twMerge(
+            "flex-1 rounded-md px-2 py-1 cursor-pointer transition-all",
+            value === option.value
+              ? "bg-gray-100 font-semibold"
+              : "bg-white text-gray-600"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const JourneyTimeInput = ({
+  type,
+  time,
+  onTypeChange,
+  onTimeChange,
+}: {
+  type: JourneyTimeOption;
+  time: string;
+  onTypeChange: (type: JourneyTimeOption) => void;
+  onTimeChange: (time: string) => void;
+}) => {
+  return (
+    <div className="flex w-full flex-col gap-2">
+      <SegmentedToggle
+        options={JOURNEY_TIME_OPTIONS}
+        value={type}
+        onChange={onTypeChange}
+      />
+      {type !== "now" && (
+        <input
+          type="datetime-local"
+          value={time}
+          onChange={(event) => onTimeChange(event.target.value)}
+          className="w-full rounded-lg border border-gray-300 p-2 text-sm"
+          aria-label={type === "arrival" ? "Arrive by" : "Leave at"}
+        />
+      )}
+    </div>
+  );
+};
+
+const AlternativePicker = ({
+  count,
+  value,
+  onChange,
+}: {
+  count: number;
+  value: number | null;
+  onChange: (alternative: number | null) => void;
+}) => {
+  const options = [
+    { value: null, label: "All routes" },
+    ...Array.from({ length: count }, (_, index) => ({
+      value: index,
+      label: `Route ${index + 1}`,
+    })),
+  ];
+
+  return (
+    <div className="flex w-full flex-wrap gap-2 text-sm">
+      {options.map((option) => (
+        <button
+          key={option.label}
+          onClick={() => onChange(option.value)}
+          className={twMerge(
+            "rounded-full border px-3 py-1 cursor-pointer transition-all",
+            value === option.value
+              ? "bg-gray-100 border-gray-400 font-semibold"
+              : "bg-white border-gray-300 text-gray-600"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const IsochroneMinutesInput = ({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (minutes: number) => void;
+}) => {
+  return (
+    <label className="flex w-full flex-col gap-1 text-sm text-gray-600">
+      <span>Everyone within {value} min</span>
+      <input
+        type="range"
+        min={MEETUP_CONFIG.ISOCHRONE_MIN_MINUTES}
+        max={MEETUP_CONFIG.ISOCHRONE_MAX_MINUTES}
+        step={5}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-full cursor-pointer"
+      />
+    </label>
+  );
+};
+
+const CorridorWidthInput = ({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (width: number) => void;
+}) => {
+  return (
+    <label className="flex w-full flex-col gap-1 text-sm text-gray-600">
+      <span>Up to {formatDistance(value)} off the route</span>
+      <input
+        type="range"
+        min={MEETUP_CONFIG.CORRIDOR_MIN_WIDTH}
+        max={MEETUP_CONFIG.CORRIDOR_MAX_WIDTH}
+        step={50}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-full cursor-pointer"
+      />
+    </label>
+  );
+};
+
+const CrawlStopsInput = ({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (stops: number) => void;
+}) => {
+  return (
+    <label className="flex w-full flex-col gap-1 text-sm text-gray-600">
+      <span>{value === 0 ? "No pub crawl" : `Pub crawl of ${value} pubs`}</span>
+      <input
+        type="range"
+        min={0}
+        max={MEETUP_CONFIG.MAX_CRAWL_STOPS}
+        step={1}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-full cursor-pointer"
+      />
+    </label>
+  );
+};
+
+/**
+ * Says how fresh the pubs are, and whether the offline copy is in use
+ */
+const PubDataSourceNote = ({ source }: { source: PubDataSourceInfo }) => {
+  return (
+    <p className="w-full text-xs text-gray-400">
+      {source.source === "seed"
+        ? "Showing a few sample pubs while the London Datastore is unavailable"
+        : `Pubs from the London Datastore, updated ${formatDate(source.fetchedAt)}`}
+      {source.source === "bundled" && " (offline copy)"}
+    </p>
+  );
+};
+
+/**
+ * Lists each walk of a pub crawl in order, with the time of every leg
+ */
+const CrawlItinerary = ({ crawl }: { crawl: PubCrawl }) => {
+  return (
+    <div className="p-2">
+      <h3 className="font-semibold">
+        Pub crawl · {formatDuration(crawl.totalDuration)} walk (
+        {formatDistance(crawl.totalDistance)})
+      </h3>
+      <ol className="mt-2 flex flex-col gap-2">
+        {crawl.legs.map(({ pub, duration }, index) => (
+          <li
+            key={pub?.properties.objectid ?? "end"}
+            className="flex justify-between gap-4 text-sm"
+          >
+            <span>
+              {index + 1}.{" "}
+              {pub ? (
+                <>
+                  <span className="font-medium">{pub.properties.name}</span>
+                  <span className="text-gray-500">
+                    {" "}
+                    · {pub.properties.postcode}
+                  </span>
+                </>
+              ) : (
+                "Person 2"
+              )}
+            </span>
+            <span className="shrink-0 text-gray-500">
+              {formatDuration(duration)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+const TravelWeightInput = ({
+  value,
+  index,
+  onChange,
+}: {
+  value: number;
+  index: number;
+  onChange: (weight: number) => void;
+}) => {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-500">
+      <span className="whitespace-nowrap">
+        {value === MEETUP_CONFIG.DEFAULT_TRAVEL_WEIGHT
+          ? "Equal share of travel"
+          : `Travels ${value}× as far`}
+      </span>
+      <input
+        type="range"
+        min={MEETUP_CONFIG.MIN_TRAVEL_WEIGHT}
+        max={MEETUP_CONFIG.MAX_TRAVEL_WEIGHT}
+        step={0.25}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="w-full cursor-pointer"
+        aria-label={`Travel share for person ${index + 1}`}
+      />
+    </label>
+  );
+};
+
+const ParticipantInput = ({
+  participant,
+  index,
+  canRemove,
+  hideSelectedPin,
+  onChange,
+  onRemove,
 }: {
+  participant: MeetupParticipant;
+  index: number;
+  canRemove: boolean;
+  hideSelectedPin: boolean;
+  onChange: (id: string, changes: ParticipantChange) => void;
+  onRemove: (id: string) => void;
+}) => {
+  const { id } = participant;
+
+  const handleSelect = useCallback(
+    (location: LocationFeature) =>
+      onChange(id, { point: location.geometry.coordinates }),
+    [id, onChange]
+  );
+  const handleDeselect = useCallback(
+    () => onChange(id, { point: undefined }),
+    [id, onChange]
+  );
+  const handleWeightChange = useCallback(
+    (weight: number) => onChange(id, { weight }),
+    [id, onChange]
+  );
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      <div className="flex items-center gap-2 w-full">
+        <MapSearchInput
+          className="w-full"
+          placeholder={`Search person ${index + 1}`}
+          onSelect={handleSelect}
+          onDeselect={handleDeselect}
+          hideSelectedPin={hideSelectedPin}
+        />
+        {canRemove && (
+          <button
+            onClick={() => onRemove(id)}
+            className="p-1 text-gray-400 hover:text-gray-600 cursor-pointer"
+            aria-label={`Remove person ${index + 1}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {TRANSPORT_OPTIONS.map(({ value, Icon }) => (
+          <TransportButton
+            key={value}
+            onClick={() => onChange(id, { mode: value })}
+            isSelected={participant.mode === value}
+            Icon={<Icon className="w-5 h-5 text-gray-600" />}
+          />
+        ))}
+      </div>
+      <TravelWeightInput
+        value={participant.weight}
+        index={index}
+        onChange={handleWeightChange}
+      />
+    </div>
+  );
+};
+
+export interface SearchTabProps {
   className?: string;
   onSearchChange: (req: IRouteRequestParams) => void;
-  reccomendedPubs: PubFeature[] | null;
-}) => {
-  const [selectedTransport, setSelectedTransport] = useState<
-    "transit" | "walking" | "cycling"
-  >("walking");
-  const [pointA, setPointA] = useState<[number, number]>();
-  const [pointB, setPointB] = useState<[number, number]>();
+  reccomendedPubs: RecommendedPub[] | null;
+  /** Largest radius searched around a meeting point (meters) */
+  searchRadius: number | null;
+  /** Number of alternative routings of the group */
+  alternativeCount: number;
+  /** Chosen alternative, or null when every alternative is shown */
+  activeAlternative: number | null;
+  onAlternativeChange: (alternative: number | null) => void;
+  /** Planned pub crawl between two people, null when there is none */
+  crawl: PubCrawl | null;
+  /** Seconds until routing is back when the search fell back to crow flies */
+  routingRetryAfter: number | null;
+  /** Why the search failed, null when it didn't */
+  errorMessage: string | null;
+  /** Where the pubs came from, null until they load */
+  pubDataSource: PubDataSourceInfo | null;
+}
+
+const SearchTabContent = ({
+  onSearchChange,
+  reccomendedPubs,
+  searchRadius,
+  alternativeCount,
+  activeAlternative,
+  onAlternativeChange,
+  crawl,
+  routingRetryAfter,
+  errorMessage,
+  pubDataSource,
+}: Omit<SearchTabProps, "className">) => {
+  const [midpointMode, setMidpointMode] = useState<MidpointMode>("journey");
+  const [isochroneMinutes, setIsochroneMinutes] = useState<number>(
+    MEETUP_CONFIG.ISOCHRONE_DEFAULT_MINUTES
+  );
+  const [corridorWidth, setCorridorWidth] = useState<number>(
+    MEETUP_CONFIG.CORRIDOR_DEFAULT_WIDTH
+  );
+  const [corridorSort, setCorridorSort] = useState<CorridorSort>("central");
+  const [crawlStops, setCrawlStops] = useState(0);
+  const [journeyTimeType, setJourneyTimeType] =
+    useState<JourneyTimeOption>("now");
+  // Local date and time from the datetime-local input, e.g. 2026-10-23T19:00
+  const [journeyTimeValue, setJourneyTimeValue] = useState("");
+  const [participants, setParticipants] = useState<MeetupParticipant[]>(() =>
+    Array.from({ length: MEETUP_CONFIG.MIN_PARTICIPANTS }, createParticipant)
+  );
+
+  const allSelected = participants.every((participant) => participant.point);
+  const isRouted = midpointMode === "journey" || midpointMode === "corridor";
+  // A crawl walks from one person to the other, so it needs exactly two
+  const canCrawl = participants.length === 2;
+
+  // The corridor is ordered by centrality, so re-sort it when asked for fairness
+  const sortedPubs =
+    midpointMode === "corridor" && corridorSort === "fair"
+      ? reccomendedPubs &&
+        [...reccomendedPubs].sort((a, b) => a.fairness.score - b.fairness.score)
+      : reccomendedPubs;
+
+  const handleParticipantChange = useCallback(
+    (id: string, changes: ParticipantChange) => {
+      setParticipants((prev) =>
+        prev.map((participant) =>
+          participant.id === id ? { ...participant, ...changes } : participant
+        )
+      );
+    },
+    []
+  );
+
+  const handleParticipantRemove = useCallback((id: string) => {
+    setParticipants((prev) =>
+      prev.filter((participant) => participant.id !== id)
+    );
+  }, []);
+
+  const handleParticipantAdd = () => {
+    setParticipants((prev) => [...prev, createParticipant()]);
+  };
 
   useEffect(() => {
-    if (!pointA || !pointB) return;
+    if (!participants.every((participant) => participant.point)) return;
+
+    // Only routed journeys depend on the time of day
+    const journeyTime: JourneyTime | undefined =
+      isRouted && journeyTimeType !== "now" && journeyTimeValue
+        ? {
+            type: journeyTimeType,
+            time: new Date(journeyTimeValue).toISOString(),
+          }
+        : undefined;
 
-    onSearchChange({ pointA, pointB, mode: selectedTransport });
-  }, [pointA, pointB, selectedTransport, onSearchChange]);
+    onSearchChange({
+      participants: participants.map(({ point, mode, weight }) => ({
+        point: point!,
+        mode,
+        weight,
+      })),
+      midpointMode,
+      isochroneMinutes:
+        midpointMode === "isochrone" ? isochroneMinutes : undefined,
+      corridorWidth: midpointMode === "corridor" ? corridorWidth : undefined,
+      journeyTime,
+      crawlStops: canCrawl && crawlStops > 0 ? crawlStops : undefined,
+    });
+  }, [
+    participants,
+    midpointMode,
+    isRouted,
+    isochroneMinutes,
+    corridorWidth,
+    canCrawl,
+    crawlStops,
+    journeyTimeType,
+    journeyTimeValue,
+    onSearchChange,
+  ]);
 
   return (
     <>
-      <div className="flex gap-2">
-        {/* <TransportButton
-          onClick={() => setSelectedTransport("cycling")}
-          isSelected={selectedTransport === "cycling"}
-          Icon={<Bike className="w-6 h-6 text-gray-600" />}
+      <SegmentedToggle
+        options={MIDPOINT_MODE_OPTIONS}
+        value={midpointMode}
+        onChange={setMidpointMode}
+      />
+      {isRouted && (
+        <JourneyTimeInput
+          type={journeyTimeType}
+          time={journeyTimeValue}
+          onTypeChange={setJourneyTimeType}
+          onTimeChange={setJourneyTimeValue}
         />
-        <TransportButton
-          onClick={() => setSelectedTransport("walking")}
-          isSelected={selectedTransport === "walking"}
-          Icon={<Footprints className="w-6 h-6 text-gray-600" />}
+      )}
+      {midpointMode === "isochrone" && (
+        <IsochroneMinutesInput
+          value={isochroneMinutes}
+          onChange={setIsochroneMinutes}
         />
-        <TransportButton
-          onClick={() => setSelectedTransport("transit")}
-          isSelected={selectedTransport === "transit"}
-          Icon={<BusFront className="w-6 h-6 text-gray-600" />}
-        /> */}
-      </div>
+      )}
+      {midpointMode === "corridor" && (
+        <CorridorWidthInput value={corridorWidth} onChange={setCorridorWidth} />
+      )}
 
       <div className="flex flex-col gap-2 w-full">
-        <MapSearchInput
-          className="w-full"
-          placeholder="Search point A"
-          onSelect={(location) => setPointA(location.geometry.coordinates)}
-          onDeselect={() => setPointA(undefined)}
-          hideSelectedPin={Boolean(pointA) && Boolean(pointB)}
-        />
-        <MapSearchInput
-          className="w-full"
-          placeholder="Search point B"
-          onSelect={(location) => setPointB(location.geometry.coordinates)}
-          onDeselect={() => setPointB(undefined)}
-          hideSelectedPin={Boolean(pointA) && Boolean(pointB)}
-        />
+        {participants.map((participant, index) => (
+          <ParticipantInput
+            key={participant.id}
+            participant={participant}
+            index={index}
+            canRemove={participants.length > MEETUP_CONFIG.MIN_PARTICIPANTS}
+            hideSelectedPin={allSelected}
+            onChange={handleParticipantChange}
+            onRemove={handleParticipantRemove}
+          />
+        ))}
+        {participants.length < MEETUP_CONFIG.MAX_PARTICIPANTS && (
+          <button
+            onClick={handleParticipantAdd}
+            className="flex items-center gap-2 p-2 text-sm text-gray-600 hover:text-black cursor-pointer"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add person
+          </button>
+        )}
       </div>
 
+      {canCrawl && (
+        <CrawlStopsInput value={crawlStops} onChange={setCrawlStops} />
+      )}
+
+      {!crawl && alternativeCount > 1 && (
+        <AlternativePicker
+          count={alternativeCount}
+          value={activeAlternative}
+          onChange={onAlternativeChange}
+        />
+      )}
+
       <div className="grow w-full gap-2 overflow-y-auto min-h-0">
+        {routingRetryAfter !== null && midpointMode !== "crow" && (
+          <p className="p-2 text-sm text-amber-700 bg-amber-50 rounded">
+            {ERROR_MESSAGES.ROUTING_UNAVAILABLE} Try again in{" "}
+            {formatDuration(Math.max(60, routingRetryAfter))}.
+          </p>
+        )}
+        {errorMessage && (
+          <p className="p-2 text-sm text-red-600">{errorMessage}</p>
+        )}
+        {crawl && <CrawlItinerary crawl={crawl} />}
+        {reccomendedPubs?.length === 0 && (
+          <p className="p-2 text-sm text-gray-500">
+            {midpointMode === "isochrone"
+              ? `No open pubs are reachable by everyone within ${isochroneMinutes} min`
+              : midpointMode === "corridor"
+                ? `No open pubs within ${formatDistance(corridorWidth)} of the routes. Try a wider corridor.`
+                : `No open pubs within ${formatDistance(MEETUP_CONFIG.MAX_SEARCH_RADIUS)} of the meeting point. Try another route or midpoint mode.`}
+          </p>
+        )}
+        {!!reccomendedPubs?.length && searchRadius !== null && (
+          <p className="p-2 text-sm text-gray-500">
+            Nearest open pubs within {formatDistance(searchRadius)} of the
+            meeting point
+          </p>
+        )}
+        {midpointMode === "corridor" && !!reccomendedPubs?.length && (
+          <SegmentedToggle
+            options={CORRIDOR_SORT_OPTIONS}
+            value={corridorSort}
+            onChange={setCorridorSort}
+          />
+        )}
         <ul>
-          {reccomendedPubs?.map((pub) => (
-            <li
-              key={pub.properties.objectid}
-              className="p-2 border-b flex justify-between gap-4"
-            >
-              <div className="grow">
-                <h3 className="font-semibold">{pub.properties.name}</h3>
-                <p className="text-sm text-gray-600">
-                  {pub.properties.address1}
-                </p>
-                <p className="text-sm text-gray-600">
-                  {pub.properties.postcode}
-                </p>
-              </div>
-              <Link
-                href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
-                  `${pub.properties.name}, ${pub.properties.address1}, ${pub.properties.postcode}`
-                )}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="my-auto"
+          {sortedPubs?.map(
+            ({
+              pub,
+              fairness,
+              source,
+              journeyTimes,
+              corridor,
+              alternatives,
+            }) => (
+              <li
+                key={pub.properties.objectid}
+                className="p-2 border-b flex justify-between gap-4"
               >
-                <ExternalLink className="w-5 h-5 text-blue-600" />
-              </Link>
-            </li>
-          ))}
+                <div className="grow">
+                  <h3 className="font-semibold">{pub.properties.name}</h3>
+                  <p className="text-sm text-gray-600">
+                    {pub.properties.address1}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {pub.properties.postcode}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Longest journey {source !== "matrix" && "~"}
+                    {formatDuration(fairness.maxTime)}
+                    {fairness.timeDifference > 0 &&
+                      ` · ${formatDuration(fairness.timeDifference)} difference`}
+                  </p>
+                  {alternativeCount > 1 && alternatives && (
+                    <p className="text-xs text-gray-400">
+                      Along route{" "}
+                      {alternatives.map((index) => index + 1).join(", ")}
+                    </p>
+                  )}
+                  {corridor && (
+                    <p className="text-xs text-gray-400">
+                      {journeyTimes
+                        .map(
+                          (time, index) =>
+                            `${formatDuration(time)} from person ${index + 1}`
+                        )
+                        .join(" · ")}
+                      {corridor.distance >= 10 &&
+                        ` · ${formatDistance(corridor.distance)} off route`}
+                    </p>
+                  )}
+                </div>
+                <Link
+                  href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+                    `${pub.properties.name}, ${pub.properties.address1}, ${pub.properties.postcode}`
+                  )}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="my-auto"
+                >
+                  <ExternalLink className="w-5 h-5 text-blue-600" />
+                </Link>
+              </li>
+            )
+          )}
         </ul>
       </div>
 
+      {pubDataSource && <PubDataSourceNote source={pubDataSource} />}
+
       {/* Desktop search UI elements go here */}
     </>
   );
@@ -132,18 +700,24 @@ const SearchTabContent = ({
 const SearchTab = ({
   className,
   onSearchChange,
-  reccomendedPubs,
-}: {
-  className?: string;
-  onSearchChange: (req: IRouteRequestParams) => void;
-  reccomendedPubs: PubFeature[] | null;
-}) => {
+  ...contentProps
+}: SearchTabProps) => {
   const { isMobile } = useDeviceFormat();
   const [isOpen, setIsOpen] = useState(false);
+  // Locations the sheet last closed for
+  const closedForRef = useRef<string | null>(null);
 
+  // Close the sheet to show the map once everyone's location is set, but not
+  // while the search is being tuned with the toggles and sliders
   const mobileOnSearchChange = useCallback(
     (req: IRouteRequestParams) => {
-      setIsOpen(false);
+      const locations = JSON.stringify(
+        req.participants.map(({ point }) => point)
+      );
+      if (closedForRef.current !== locations) {
+        closedForRef.current = locations;
+        setIsOpen(false);
+      }
       onSearchChange(req);
     },
     [onSearchChange]
@@ -209,9 +783,8 @@ const SearchTab = ({
             style={{ height: "calc(90vh - 80px)" }}
           >
             <SearchTabContent
-              className={className}
+              {...contentProps}
               onSearchChange={mobileOnSearchChange}
-              reccomendedPubs={reccomendedPubs}
             />
           </div>
         </div>
@@ -231,11 +804,7 @@ const SearchTab = ({
     >
       <h2 className="text-xl font-bold mb-4">Find Pubs</h2>
 
-      <SearchTabContent
-        className={className}
-        onSearchChange={onSearchChange}
-        reccomendedPubs={reccomendedPubs}
-      />
+      <SearchTabContent {...contentProps} onSearchChange={onSearchChange} />
     </div>
   );
 };
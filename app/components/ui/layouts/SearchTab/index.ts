@@ -1 +1,2 @@
 export { default } from "./SearchTab";
+export type { SearchTabProps } from "./SearchTab";
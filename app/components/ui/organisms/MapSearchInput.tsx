@@ -48,6 +48,16 @@ export default function MapSearch({
     }
   }, [hideSelectedPin, map, selectedPinID]);
 
+  // Remove the pin when it is replaced or the input is removed
+  useEffect(() => {
+    if (!map || !selectedPinID) return;
+
+    return () => {
+      if (map.getLayer(selectedPinID)) map.removeLayer(selectedPinID);
+      if (map.getSource(selectedPinID)) map.removeSource(selectedPinID);
+    };
+  }, [map, selectedPinID]);
+
   useEffect(() => {
     if (!debouncedQuery.trim()) {
       setResults([]);
@@ -5,5 +5,10 @@
 
 // export { default as useMapbox } from "./useMapbox";
 export * from "./usePubData";
+export * from "./usePubChanges";
 export * from "./useRoutes";
+export * from "./useMeetupSearch";
+export * from "./usePubCrawl";
+export * from "./useIsochrones";
+export * from "./useViewportPubs";
 export * from "./useDebounce";
@@ -0,0 +1,127 @@
+/**
+ * useIsochrones Hook
+ * Custom React hook for fetching the area each participant can reach in a time budget
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { fetchIsochrone, type IsochroneProfile } from "@/lib/services/mapbox";
+import { MAPBOX_CONFIG, MEETUP_CONFIG } from "@/lib/constants";
+import { createCirclePolygon, intersectPolygons } from "@/lib/utils/geometry";
+import type { RouteOrigin, TransportMode } from "@/types/routes";
+
+/**
+ * Query keys for TanStack Query
+ */
+export const isochroneQueryKeys = {
+  all: ["isochrones"] as const,
+  isochrone: (point: [number, number], minutes: number, mode: TransportMode) =>
+    [...isochroneQueryKeys.all, point[0], point[1], minutes, mode] as const,
+};
+
+/**
+ * Mapbox profile for each transport mode
+ * Mapbox has no public transport isochrones, so transit is approximated
+ */
+const ISOCHRONE_PROFILES: Record<TransportMode, IsochroneProfile | null> = {
+  walking: MAPBOX_CONFIG.DIRECTIONS_PROFILES.WALKING,
+  cycling: MAPBOX_CONFIG.DIRECTIONS_PROFILES.CYCLING,
+  transit: null,
+};
+
+interface UseIsochronesReturn {
+  /** Reachable area for each origin (null until loaded) */
+  isochrones: (GeoJSON.Polygon | null)[];
+  /** Area everyone can reach, null until loaded or when there is no overlap */
+  meetingArea: GeoJSON.MultiPolygon | null;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Scale the group's time budget by a participant's travel weight
+ * Kept to whole minutes within the range Mapbox accepts
+ */
+function getOriginMinutes({ weight = 1 }: RouteOrigin, minutes: number) {
+  return Math.min(
+    MEETUP_CONFIG.ISOCHRONE_MAX_MINUTES,
+    Math.max(1, Math.round(minutes * weight))
+  );
+}
+
+/**
+ * Fetch an isochrone, falling back to a circle at the assumed straight-line
+ * speed for transport modes Mapbox cannot route
+ */
+async function fetchOriginIsochrone(
+  { point, mode }: RouteOrigin,
+  minutes: number
+): Promise<GeoJSON.Polygon> {
+  const profile = ISOCHRONE_PROFILES[mode];
+
+  if (!profile) {
+    const radius = MEETUP_CONFIG.CROW_FLIES_SPEEDS[mode] * minutes * 60;
+    return createCirclePolygon(point, radius);
+  }
+
+  return fetchIsochrone(point, minutes, profile);
+}
+
+/**
+ * Hook for fetching every origin's isochrone and the area they share
+ *
+ * @param origins - Starting location, transport mode and travel weight of every participant
+ * @param minutes - Travel time budget in minutes for an equal share of the travel
+ * @param enabled - Whether to fetch at all
+ */
+export function useIsochrones(
+  origins: RouteOrigin[],
+  minutes: number,
+  enabled: boolean = true
+): UseIsochronesReturn {
+  const results = useQueries({
+    queries: origins.map((origin) => {
+      const originMinutes = getOriginMinutes(origin, minutes);
+
+      return {
+        queryKey: isochroneQueryKeys.isochrone(
+          origin.point,
+          originMinutes,
+          origin.mode
+        ),
+        queryFn: () => fetchOriginIsochrone(origin, originMinutes),
+        enabled,
+        staleTime: 60 * 60 * 1000, // 1 hour - reachable areas rarely change
+        gcTime: 60 * 60 * 1000, // 1 hour cache
+      };
+    }),
+  });
+
+  const isochrones = results.map((result) => result.data ?? null);
+  const isComplete =
+    enabled && isochrones.length > 0 && isochrones.every(Boolean);
+
+  // Serialise so the intersection is only recomputed when the shapes change
+  const isochronesKey = isComplete ? JSON.stringify(isochrones) : null;
+
+  const meetingArea = useMemo(
+    () =>
+      isochronesKey
+        ? intersectPolygons(JSON.parse(isochronesKey) as GeoJSON.Polygon[])
+        : null,
+    [isochronesKey]
+  );
+
+  const firstError = results.find((result) => result.error)?.error ?? null;
+
+  return {
+    isochrones,
+    meetingArea,
+    isLoading: results.some((result) => result.isLoading),
+    isError: results.some((result) => result.isError),
+    error: firstError as Error | null,
+  };
+}
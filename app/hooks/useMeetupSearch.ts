@@ -0,0 +1,367 @@
+/**
+ * useMeetupSearch Hook
+ * Custom React hook that finds a meeting point for a group and recommends pubs around it
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  isRoutingUnavailable,
+  useParticipantRoutes,
+  useRouteMatrix,
+  type TravelOrigin,
+} from "./useRoutes";
+import { useIsochrones } from "./useIsochrones";
+import { MEETUP_CONFIG, TRANSPORT_TRAVEL_MODES } from "@/lib/constants";
+import {
+  getCentroid,
+  getGeodesicMidpoint,
+  getGroupMidpointByDuration,
+  getRouteDurationSeconds,
+} from "@/lib/utils/coordinates";
+import {
+  getMultiPolygonBounds,
+  isPointInMultiPolygon,
+} from "@/lib/utils/geometry";
+import type { SpatialIndex } from "@/lib/utils/spatialIndex";
+import {
+  findPubsAlongRoutes,
+  rankPubsByCrowFliesDistance,
+  rankPubsByFairness,
+  rankPubsByJourneyTime,
+} from "@/lib/utils/meetup";
+import type { PubFeature } from "@/types/pub";
+import type {
+  GoogleRouteTravelMode,
+  IRouteRequestParams,
+  JourneyTime,
+} from "@/types/routes";
+import type { RouteStep } from "@/types/routing";
+import type {
+  RecommendedPub,
+  RouteAlternative,
+  SearchArea,
+} from "@/types/meetup";
+
+interface UseMeetupSearchReturn {
+  /** Google travel mode used for each participant's routing */
+  travelModes: GoogleRouteTravelMode[];
+  /** Starting location of every participant [lng, lat] */
+  participants: [number, number][];
+  /** Route steps from each participant to the hub (empty in crow mode) */
+  participantSteps: RouteStep[][];
+  /** Every alternative routing of the group to the hub (empty outside journey mode) */
+  alternatives: RouteAlternative[];
+  /** The active alternative, or null when every alternative is shown */
+  activeAlternative: number | null;
+  /** The meeting point [lng, lat], shifted by travel weights, null until it can be computed */
+  midPoint: [number, number] | null;
+  /** Area everyone can reach in isochrone mode, null otherwise */
+  meetingArea: GeoJSON.MultiPolygon | null;
+  /** Circles searched for pubs around the shown meeting points */
+  searchAreas: SearchArea[];
+  /** Nearest open pubs to a meeting point (all pubs before a search) */
+  nearbyPubs: PubFeature[];
+  /** Nearby pubs ordered by fairness (by centrality in corridor mode), null until a meeting point exists */
+  recommendedPubs: RecommendedPub[] | null;
+  /** Seconds until routing is available again when the search fell back to crow flies, null otherwise */
+  routingRetryAfter: number | null;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Turn the chosen journey time into routing options (leaving now when unset)
+ */
+function getJourneyTimeOptions(journeyTime?: JourneyTime) {
+  return {
+    departureTime:
+      journeyTime?.type === "departure" ? journeyTime.time : undefined,
+    arrivalTime: journeyTime?.type === "arrival" ? journeyTime.time : undefined,
+  };
+}
+
+const isOpen = (pub: PubFeature) => pub.properties.open_status === 1;
+
+/**
+ * Find the nearest open pubs to a point, up to the maximum search radius
+ * The radius grows until enough pubs are found, so quiet outer boroughs and
+ * busy central ones both get a useful shortlist
+ */
+function getPubsNear(
+  pubIndex: SpatialIndex<PubFeature>,
+  point: [number, number]
+): { pubs: PubFeature[]; area: SearchArea } {
+  const nearest = pubIndex.nearest(point, MEETUP_CONFIG.NEAREST_PUB_COUNT, {
+    maxDistance: MEETUP_CONFIG.MAX_SEARCH_RADIUS,
+    filter: isOpen,
+  });
+
+  // Once enough pubs are found the radius is the distance to the furthest
+  const radius =
+    nearest.length === MEETUP_CONFIG.NEAREST_PUB_COUNT
+      ? nearest[nearest.length - 1].distance
+      : MEETUP_CONFIG.MAX_SEARCH_RADIUS;
+
+  return {
+    pubs: nearest.map(({ item }) => item),
+    area: { center: point, radius },
+  };
+}
+
+/**
+ * @param request - The search, undefined until every participant has a location
+ * @param pubIndex - Spatial index of every pub that could be recommended
+ * @param activeAlternative - Route alternative to focus on, or null for all of them
+ */
+export function useMeetupSearch(
+  request: IRouteRequestParams | undefined,
+  pubIndex: SpatialIndex<PubFeature>,
+  activeAlternative: number | null = null
+): UseMeetupSearchReturn {
+  const isJourney = request?.midpointMode === "journey";
+  const isIsochrone = request?.midpointMode === "isochrone";
+  const isCorridor = request?.midpointMode === "corridor";
+  const hasGroup =
+    (request?.participants.length ?? 0) >= MEETUP_CONFIG.MIN_PARTICIPANTS;
+
+  const origins = useMemo<TravelOrigin[]>(
+    () =>
+      (request?.participants ?? []).map(({ point, mode }) => ({
+        point,
+        travelMode: TRANSPORT_TRAVEL_MODES[mode],
+      })),
+    [request]
+  );
+  const participants = useMemo(
+    () => origins.map(({ point }) => point),
+    [origins]
+  );
+  const travelWeights = useMemo(
+    () =>
+      (request?.participants ?? []).map(
+        ({ weight }) => weight ?? MEETUP_CONFIG.DEFAULT_TRAVEL_WEIGHT
+      ),
+    [request]
+  );
+
+  // In journey and corridor modes every participant is routed to the centre
+  // of the group
+  const hub = useMemo(
+    () =>
+      (isJourney || isCorridor) && hasGroup ? getCentroid(participants) : null,
+    [isJourney, isCorridor, hasGroup, participants]
+  );
+
+  const journeyTimeOptions = getJourneyTimeOptions(request?.journeyTime);
+
+  const {
+    routes,
+    isLoading: isRouteLoading,
+    isError: isRouteError,
+    error: routeError,
+  } = useParticipantRoutes(origins, hub, {
+    ...journeyTimeOptions,
+    computeAlternativeRoutes: true,
+  });
+
+  // When routing is rate limited or out of budget, meet as the crow flies
+  // instead of failing the search
+  const routingRetryAfter = isRoutingUnavailable(routeError)
+    ? routeError.retryAfter
+    : null;
+  const isCrowFlies =
+    request?.midpointMode === "crow" || routingRetryAfter !== null;
+
+  // Derive route steps directly from the route data instead of storing in state
+  const participantRoutes = routes.map(
+    (options) => options?.map((option) => option.legs[0]?.steps ?? []) ?? []
+  );
+
+  // Alternative N sends everyone along their Nth route, so each one has its
+  // own meeting point and its own pubs
+  const alternativeCount = hub
+    ? Math.max(0, ...participantRoutes.map((options) => options.length))
+    : 0;
+  const alternatives: RouteAlternative[] = Array.from(
+    { length: alternativeCount },
+    (_, index) => {
+      const steps = participantRoutes.map(
+        (options) => options[index] ?? options[0] ?? []
+      );
+      return {
+        index,
+        steps,
+        midPoint: getGroupMidpointByDuration(steps, travelWeights),
+      };
+    }
+  );
+
+  const activeIndex =
+    activeAlternative !== null && activeAlternative < alternatives.length
+      ? activeAlternative
+      : null;
+  const participantSteps =
+    alternatives[activeIndex ?? 0]?.steps ?? origins.map(() => []);
+
+  // In isochrone mode the meeting place is the area everyone can reach
+  const {
+    meetingArea,
+    isLoading: isIsochroneLoading,
+    isError: isIsochroneError,
+    error: isochroneError,
+  } = useIsochrones(
+    request?.participants ?? [],
+    request?.isochroneMinutes ?? MEETUP_CONFIG.ISOCHRONE_DEFAULT_MINUTES,
+    isIsochrone && hasGroup
+  );
+
+  let midPoint: [number, number] | null = null;
+  if (isCrowFlies && hasGroup) {
+    midPoint = getGeodesicMidpoint(participants, travelWeights);
+  } else if (isJourney && hub) {
+    midPoint = alternatives[activeIndex ?? 0]?.midPoint ?? null;
+  }
+
+  // Which alternatives' meeting points each pub is near, keyed by objectid
+  const pubAlternatives = new Map<number, number[]>();
+  const searchAreas: SearchArea[] = [];
+  alternatives.forEach(({ index, midPoint: alternativeMidPoint }) => {
+    if (!isJourney || !alternativeMidPoint) return;
+
+    const nearest = getPubsNear(pubIndex, alternativeMidPoint);
+    if (activeIndex === null || activeIndex === index) {
+      searchAreas.push(nearest.area);
+    }
+
+    nearest.pubs.forEach((pub) => {
+      const { objectid } = pub.properties;
+      pubAlternatives.set(objectid, [
+        ...(pubAlternatives.get(objectid) ?? []),
+        index,
+      ]);
+    });
+  });
+
+  // In corridor mode any pub beside the routes will do
+  const corridorPubs =
+    isCorridor && participantSteps.every((steps) => steps.length > 0)
+      ? findPubsAlongRoutes(
+          pubIndex,
+          participantSteps,
+          request?.corridorWidth ?? MEETUP_CONFIG.CORRIDOR_DEFAULT_WIDTH,
+          travelWeights,
+          isOpen
+        )
+      : null;
+
+  let nearbyPubs = pubIndex.items;
+  if (corridorPubs) {
+    nearbyPubs = corridorPubs.map(({ pub }) => pub);
+  } else if (isIsochrone && hasGroup) {
+    nearbyPubs = meetingArea
+      ? pubIndex.withinBounds(getMultiPolygonBounds(meetingArea), {
+          filter: (pub) =>
+            isOpen(pub) &&
+            isPointInMultiPolygon(pub.geometry.coordinates, meetingArea),
+        })
+      : [];
+  } else if (isCrowFlies && midPoint) {
+    const nearest = getPubsNear(pubIndex, midPoint);
+    nearbyPubs = nearest.pubs;
+    searchAreas.push(nearest.area);
+  } else if (pubAlternatives.size > 0 || midPoint) {
+    // Merge the pubs found along every alternative
+    nearbyPubs = pubIndex.items.filter((pub) =>
+      pubAlternatives.has(pub.properties.objectid)
+    );
+  }
+
+  // Estimates scale from the preferred routes to the hub
+  const estimatedPubs =
+    isJourney && hub && alternatives.some((alternative) => alternative.midPoint)
+      ? rankPubsByJourneyTime(
+          nearbyPubs,
+          participants,
+          alternatives[0].steps.map(getRouteDurationSeconds),
+          hub,
+          travelWeights
+        )
+      : null;
+
+  // Route the most promising candidates from everyone to rank them by fairness
+  const candidatePubs = (estimatedPubs ?? [])
+    .slice(0, MEETUP_CONFIG.MAX_MATRIX_CANDIDATES)
+    .map(({ pub }) => pub);
+
+  const { durations } = useRouteMatrix(
+    origins,
+    candidatePubs.map((pub) => pub.geometry.coordinates),
+    journeyTimeOptions
+  );
+
+  let recommendedPubs: RecommendedPub[] | null = null;
+  const isochroneSettled = !isIsochroneLoading || isIsochroneError;
+  if (corridorPubs) {
+    recommendedPubs = corridorPubs;
+  } else if (
+    (isCrowFlies && midPoint) ||
+    (isIsochrone && hasGroup && isochroneSettled)
+  ) {
+    recommendedPubs = rankPubsByCrowFliesDistance(
+      nearbyPubs,
+      participants,
+      (request?.participants ?? []).map(
+        ({ mode }) => MEETUP_CONFIG.CROW_FLIES_SPEEDS[mode]
+      ),
+      travelWeights
+    );
+  } else if (durations) {
+    recommendedPubs = rankPubsByFairness(
+      candidatePubs,
+      durations,
+      travelWeights
+    );
+  } else {
+    recommendedPubs = estimatedPubs;
+  }
+
+  // Tag journey mode pubs with the alternatives they came from
+  if (pubAlternatives.size > 0) {
+    recommendedPubs =
+      recommendedPubs?.map((recommendation) => ({
+        ...recommendation,
+        alternatives: pubAlternatives.get(
+          recommendation.pub.properties.objectid
+        ),
+      })) ?? null;
+  }
+
+  // Focus on a single alternative's pubs when one is chosen (the corridor
+  // already follows the chosen alternative)
+  const isInActiveAlternative = (pub: PubFeature) =>
+    activeIndex === null ||
+    !isJourney ||
+    (pubAlternatives.get(pub.properties.objectid)?.includes(activeIndex) ??
+      false);
+
+  return {
+    travelModes: origins.map(({ travelMode }) => travelMode),
+    participants,
+    participantSteps,
+    alternatives,
+    activeAlternative: activeIndex,
+    midPoint,
+    meetingArea,
+    searchAreas,
+    nearbyPubs: nearbyPubs.filter(isInActiveAlternative),
+    recommendedPubs:
+      recommendedPubs?.filter(({ pub }) => isInActiveAlternative(pub)) ?? null,
+    routingRetryAfter,
+    isLoading: isRouteLoading || isIsochroneLoading,
+    isError: (isRouteError && routingRetryAfter === null) || isIsochroneError,
+    error: (routingRetryAfter === null ? routeError : null) ?? isochroneError,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * usePubChanges Hook
+ * Custom React hook for the history of the pubs layer: openings, closures and edits
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { PUB_CHANGES_CONFIG } from "@/lib/constants";
+import { getRecentlyClosedPubs } from "@/lib/utils/pubDiff";
+import type {
+  PubChangeSet,
+  PubChangesAPIResponse,
+  PubFeatureCollection,
+} from "@/types/pub";
+
+/**
+ * Query keys for TanStack Query
+ */
+export const pubChangeQueryKeys = {
+  all: ["pub-changes"] as const,
+};
+
+async function fetchPubChanges(signal?: AbortSignal): Promise<PubChangeSet[]> {
+  const response = await fetch("/api/pubs/changes", { signal });
+  const result: PubChangesAPIResponse = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error ?? "Failed to fetch pub changes");
+  }
+
+  return result.data;
+}
+
+interface UsePubChangesReturn {
+  /** Change sets, newest first */
+  changeSets: PubChangeSet[];
+  /** Pubs closed or removed in the RECENT_DAYS before the newest change */
+  recentlyClosed: PubFeatureCollection;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for fetching the changes to the pubs layer
+ */
+export function usePubChanges(): UsePubChangesReturn {
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: pubChangeQueryKeys.all,
+    queryFn: ({ signal }) => fetchPubChanges(signal),
+    staleTime: 60 * 60 * 1000, // 1 hour - the layer changes rarely
+  });
+
+  // Measured from the newest change, so an old offline copy still shows some
+  const recentlyClosed = useMemo<PubFeatureCollection>(() => {
+    const latest = data?.[0] ? Date.parse(data[0].to) : 0;
+    const since = new Date(
+      latest - PUB_CHANGES_CONFIG.RECENT_DAYS * 24 * 60 * 60 * 1000
+    );
+    return {
+      type: "FeatureCollection",
+      features: getRecentlyClosedPubs(data ?? [], since),
+    };
+  }, [data]);
+
+  return {
+    changeSets: data ?? [],
+    recentlyClosed,
+    isLoading,
+    isError,
+    error: error as Error | null,
+  };
+}
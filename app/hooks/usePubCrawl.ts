@@ -0,0 +1,114 @@
+/**
+ * usePubCrawl Hook
+ * Custom React hook that plans a walking pub crawl between two participants
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { useParticipantRoutes, useRouteVia } from "./useRoutes";
+import { MEETUP_CONFIG } from "@/lib/constants";
+import { pickCrawlStops } from "@/lib/utils/meetup";
+import type { SpatialIndex } from "@/lib/utils/spatialIndex";
+import type { PubFeature } from "@/types/pub";
+import type { IRouteRequestParams } from "@/types/routes";
+import type { Route } from "@/types/routing";
+import type { CrawlLeg, PubCrawl } from "@/types/meetup";
+
+interface UsePubCrawlReturn {
+  /** The planned crawl, null until it has been routed or when none was asked for */
+  crawl: PubCrawl | null;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+const isOpen = (pub: PubFeature) => pub.properties.open_status === 1;
+
+/**
+ * Split a routed crawl into one leg per pub, plus the walk to the second person
+ */
+function buildPubCrawl(route: Route, stops: PubFeature[]): PubCrawl | null {
+  if (route.legs.length !== stops.length + 1) return null;
+
+  const crawlLegs: CrawlLeg[] = route.legs.map((leg, index) => ({
+    pub: stops[index] ?? null,
+    steps: leg.steps,
+    duration: leg.duration,
+    distance: leg.distance,
+  }));
+
+  return {
+    stops,
+    legs: crawlLegs,
+    totalDuration: crawlLegs.reduce((sum, leg) => sum + leg.duration, 0),
+    totalDistance: crawlLegs.reduce((sum, leg) => sum + leg.distance, 0),
+  };
+}
+
+/**
+ * Walks directly from the first participant to the second, picks open pubs
+ * spaced along the way, then routes the walk again through them in order
+ *
+ * @param request - The search, undefined until every participant has a location
+ * @param pubIndex - Spatial index of every pub that could be a stop
+ */
+export function usePubCrawl(
+  request: IRouteRequestParams | undefined,
+  pubIndex: SpatialIndex<PubFeature>
+): UsePubCrawlReturn {
+  const stopCount = Math.min(
+    request?.crawlStops ?? 0,
+    MEETUP_CONFIG.MAX_CRAWL_STOPS
+  );
+  // A crawl runs between exactly two people
+  const isCrawl = stopCount > 0 && request?.participants.length === 2;
+  const start = isCrawl ? request.participants[0].point : null;
+  const end = isCrawl ? request.participants[1].point : null;
+
+  const {
+    routes: [directRoute],
+    isLoading: isDirectLoading,
+    isError: isDirectError,
+    error: directError,
+  } = useParticipantRoutes(
+    start ? [{ point: start, travelMode: "WALK" }] : [],
+    end
+  );
+
+  const stops = useMemo(() => {
+    const steps = directRoute?.[0]?.legs[0]?.steps ?? [];
+    if (!isCrawl || steps.length === 0) return [];
+
+    return pickCrawlStops(
+      pubIndex,
+      steps,
+      stopCount,
+      MEETUP_CONFIG.CRAWL_SEARCH_WIDTH,
+      isOpen
+    );
+  }, [directRoute, isCrawl, pubIndex, stopCount]);
+
+  const {
+    route,
+    isLoading: isCrawlLoading,
+    isError: isCrawlError,
+    error: crawlError,
+  } = useRouteVia(
+    stops.length > 0 ? start : null,
+    stops.length > 0 ? end : null,
+    stops.map((pub) => pub.geometry.coordinates)
+  );
+
+  const crawl = useMemo(
+    () => (isCrawl && route ? buildPubCrawl(route, stops) : null),
+    [isCrawl, route, stops]
+  );
+
+  return {
+    crawl,
+    isLoading: isDirectLoading || isCrawlLoading,
+    isError: isDirectError || isCrawlError,
+    error: directError ?? crawlError,
+  };
+}
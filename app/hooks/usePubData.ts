@@ -7,12 +7,17 @@
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useMemo, useState } from 'react';
-import {
-  fetchAllPubs,
-  fetchPubById,
-  fetchPubsByBorough,
-} from '../lib/services/londonGIS';
-import type { PubFeature } from '../types/pub';
+import { fetchPubById, fetchPubsNear } from '../lib/services/londonGIS';
+import { pubFiltersToSearchParams } from '../lib/utils/pubFilters';
+import { SpatialIndex } from '../lib/utils/spatialIndex';
+import type {
+  PubDataSourceInfo,
+  PubFeature,
+  PubFeatureCollection,
+  PubFilters as PubQueryFilters,
+  PubsAPIResponse,
+} from '../types/pub';
+import type { LondonMapBounds } from '../types/map';
 
 /**
  * Query keys for TanStack Query
@@ -24,6 +29,12 @@ export const pubQueryKeys = {
   details: () => [...pubQueryKeys.all, 'detail'] as const,
   detail: (id: number) => [...pubQueryKeys.details(), id] as const,
   borough: (borough: string) => [...pubQueryKeys.all, 'borough', borough] as const,
+  bounds: (
+    { west, south, east, north }: LondonMapBounds,
+    filters?: PubQueryFilters
+  ) => [...pubQueryKeys.all, 'bounds', west, south, east, north, filters] as const,
+  near: (point: [number, number], radius: number, filters?: PubQueryFilters) =>
+    [...pubQueryKeys.all, 'near', point[0], point[1], radius, filters] as const,
 };
 
 /**
@@ -35,6 +46,33 @@ export interface PubFilters {
   searchQuery?: string;
 }
 
+/**
+ * Pubs from /api/pubs with where they came from
+ */
+interface PubsQueryData {
+  pubs: PubFeatureCollection;
+  source: PubDataSourceInfo | null;
+}
+
+/**
+ * Fetch pubs from the server's snapshot of the London GIS layer
+ * The browser revalidates with the response's ETag, so unchanged data
+ * costs a 304 rather than the whole layer
+ */
+async function fetchPubs(
+  filters: PubQueryFilters = {}
+): Promise<PubsQueryData> {
+  const query = pubFiltersToSearchParams(filters).toString();
+  const response = await fetch(`/api/pubs${query ? `?${query}` : ''}`);
+  const result: PubsAPIResponse = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error ?? 'Failed to fetch pubs');
+  }
+
+  return { pubs: result.data, source: result.source ?? null };
+}
+
 /**
  * Hook return type
  */
@@ -42,8 +80,12 @@ export interface UsePubDataReturn {
   // Data
   pubs: PubFeature[];
   allPubs: PubFeature[];
+  /** Spatial index over the filtered pubs for proximity queries */
+  pubIndex: SpatialIndex<PubFeature>;
   filteredCount: number;
   totalCount: number;
+  /** Where the pubs came from, once loaded */
+  dataSource: PubDataSourceInfo | null;
 
   // Loading states
   isLoading: boolean;
@@ -79,18 +121,14 @@ export function usePubData(): UsePubDataReturn {
     refetch,
   } = useQuery({
     queryKey: pubQueryKeys.list(filters),
-    queryFn: async () => {
-      // If borough filter is set, fetch by borough for efficiency
-      if (filters.borough) {
-        return fetchPubsByBorough(filters.borough);
-      }
-      return fetchAllPubs();
-    },
+    // The borough is filtered on the server, the rest on the client below
+    queryFn: () =>
+      fetchPubs(filters.borough ? { boroughs: [filters.borough] } : {}),
     staleTime: 5 * 60 * 1000, // 5 minutes (from QUERY_CONFIG)
     gcTime: 60 * 60 * 1000, // 1 hour cache (from QUERY_CONFIG)
   });
 
-  const allPubs = useMemo(() => data?.features || [], [data]);
+  const allPubs = useMemo(() => data?.pubs.features || [], [data]);
 
   // Client-side filtering and search
   const pubs = useMemo(() => {
@@ -121,6 +159,12 @@ export function usePubData(): UsePubDataReturn {
     return filtered;
   }, [allPubs, filters.openStatus, searchQuery]);
 
+  // Build the index once per pub list rather than on every proximity query
+  const pubIndex = useMemo(
+    () => new SpatialIndex(pubs, (pub) => pub.geometry.coordinates),
+    [pubs]
+  );
+
   const clearFilters = () => {
     setFilters({});
     setSearchQuery('');
@@ -130,8 +174,10 @@ export function usePubData(): UsePubDataReturn {
     // Data
     pubs,
     allPubs,
+    pubIndex,
     filteredCount: pubs.length,
     totalCount: allPubs.length,
+    dataSource: data?.source ?? null,
 
     // Loading states
     isLoading,
@@ -170,12 +216,35 @@ export function usePub(id: number | null) {
 export function usePubsByBorough(borough: string | null) {
   return useQuery({
     queryKey: pubQueryKeys.borough(borough!),
-    queryFn: () => fetchPubsByBorough(borough!),
+    queryFn: () => fetchPubs({ boroughs: [borough!] }),
+    select: (data) => data.pubs,
     enabled: borough !== null && borough.length > 0,
     staleTime: 5 * 60 * 1000,
   });
 }
 
+/**
+ * Hook for fetching the pubs around a point, nearest first
+ * Only those pubs are downloaded, rather than the whole of London
+ *
+ * @param point - Centre of the search [longitude, latitude]
+ * @param radius - Search radius in meters
+ * @param filters - Filters applied by the London GIS server
+ */
+export function usePubsNear(
+  point: [number, number] | null,
+  radius: number,
+  filters: PubQueryFilters = {}
+) {
+  return useQuery({
+    // Disabled without a point, so the fallback key is never fetched
+    queryKey: pubQueryKeys.near(point ?? [0, 0], radius, filters),
+    queryFn: ({ signal }) => fetchPubsNear(point!, radius, filters, signal),
+    enabled: !!point && radius > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 /**
  * Hook for prefetching pub data (useful for performance optimization)
  */
@@ -185,7 +254,7 @@ export function usePrefetchPubs() {
   const prefetchAllPubs = () => {
     queryClient.prefetchQuery({
       queryKey: pubQueryKeys.list(),
-      queryFn: fetchAllPubs,
+      queryFn: () => fetchPubs(),
     });
   };
 
@@ -199,7 +268,7 @@ export function usePrefetchPubs() {
   const prefetchBorough = (borough: string) => {
     queryClient.prefetchQuery({
       queryKey: pubQueryKeys.borough(borough),
-      queryFn: () => fetchPubsByBorough(borough),
+      queryFn: () => fetchPubs({ boroughs: [borough] }),
     });
   };
 
@@ -1,20 +1,28 @@
 /**
  * useRoutes Hook
- * Custom React hook for fetching routes from Google Maps Routes API with TanStack Query
+ * Custom React hook for fetching routes from our routes API (Google or Mapbox) with TanStack Query
  */
 
 "use client";
 
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState, useCallback } from "react";
+import { ERROR_MESSAGES, QUERY_CONFIG } from "@/lib/constants";
 import type {
-  GoogleRouteRequestParams,
-  GoogleRouteAPIResponse,
-  GoogleComputeRoutesResponse,
+  GoogleRouteMatrixAPIResponse,
+  GoogleRouteMatrixElement,
+  GoogleRouteMatrixRequestParams,
   GoogleRouteTravelMode,
   GoogleRoutingPreference,
   GoogleUnits,
 } from "@/types/routes";
+import type {
+  Route,
+  RouteAPIResponse,
+  RouteErrorCode,
+  RouteRequestParams,
+  RoutingProviderName,
+} from "@/types/routing";
 
 /**
  * Query keys for TanStack Query
@@ -26,7 +34,11 @@ export const routeQueryKeys = {
     originLng: number,
     destLat: number,
     destLng: number,
-    travelMode: GoogleRouteTravelMode
+    travelMode: GoogleRouteTravelMode,
+    departureTime?: string,
+    arrivalTime?: string,
+    computeAlternativeRoutes: boolean = false,
+    provider?: RoutingProviderName
   ) =>
     [
       ...routeQueryKeys.all,
@@ -36,6 +48,42 @@ export const routeQueryKeys = {
       destLat,
       destLng,
       travelMode,
+      departureTime ?? null,
+      arrivalTime ?? null,
+      computeAlternativeRoutes,
+      provider ?? null,
+    ] as const,
+  via: (
+    origin: [number, number],
+    destination: [number, number],
+    intermediates: [number, number][],
+    travelMode: GoogleRouteTravelMode,
+    provider?: RoutingProviderName
+  ) =>
+    [
+      ...routeQueryKeys.all,
+      "via",
+      origin,
+      destination,
+      intermediates,
+      travelMode,
+      provider ?? null,
+    ] as const,
+  matrix: (
+    origins: [number, number][],
+    destinations: [number, number][],
+    travelMode: GoogleRouteTravelMode,
+    departureTime?: string,
+    arrivalTime?: string
+  ) =>
+    [
+      ...routeQueryKeys.all,
+      "matrix",
+      origins,
+      destinations,
+      travelMode,
+      departureTime ?? null,
+      arrivalTime ?? null,
     ] as const,
 };
 
@@ -47,6 +95,14 @@ interface UseRoutesOptions {
   avoidTolls?: boolean;
   avoidHighways?: boolean;
   avoidFerries?: boolean;
+  /** RFC 3339 timestamp to leave at */
+  departureTime?: string;
+  /** RFC 3339 timestamp to arrive by (transit only) */
+  arrivalTime?: string;
+  /** Stops to pass through on the way [lng, lat] (not transit) */
+  intermediates?: [number, number][];
+  /** Routing backend to try first, falling back to the others when out of quota */
+  provider?: RoutingProviderName;
 }
 
 interface RouteParams {
@@ -57,7 +113,8 @@ interface RouteParams {
 }
 
 interface UseRoutesReturn {
-  data: GoogleComputeRoutesResponse | null;
+  /** Suggested routes, preferred route first */
+  data: Route[] | null;
   isLoading: boolean;
   isFetching: boolean;
   isError: boolean;
@@ -73,31 +130,136 @@ interface UseRoutesReturn {
 }
 
 /**
- * Fetch route from our API endpoint
+ * A starting location together with the travel mode used from it
+ */
+export interface TravelOrigin {
+  /** Starting location [lng, lat] */
+  point: [number, number];
+  travelMode: GoogleRouteTravelMode;
+}
+
+interface UseParticipantRoutesReturn {
+  /** Suggested routes from each origin, preferred route first (null until loaded) */
+  routes: (Route[] | null)[];
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+interface UseRouteMatrixReturn {
+  /** Journey times in seconds indexed [origin][destination], null when unreachable */
+  durations: (number | null)[][] | null;
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Error class for failed routes API requests
+ */
+export class RouteAPIError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: RouteErrorCode,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "RouteAPIError";
+  }
+}
+
+/**
+ * Whether routing is paused by the rate limit or the routing budget
+ * Retrying straight away won't help, so callers should fall back to
+ * routing-free estimates until retryAfter has passed
+ */
+export function isRoutingUnavailable(
+  error: Error | null
+): error is RouteAPIError & { retryAfter: number } {
+  return (
+    error instanceof RouteAPIError &&
+    (error.code === "RATE_LIMITED" || error.code === "BUDGET_EXHAUSTED") &&
+    error.retryAfter !== undefined
+  );
+}
+
+/**
+ * What to tell the user for each routes API error code
+ */
+const ROUTE_ERROR_MESSAGES: Record<RouteErrorCode, string> = {
+  INVALID_REQUEST: ERROR_MESSAGES.INVALID_COORDINATES,
+  OUT_OF_AREA: ERROR_MESSAGES.OUT_OF_AREA,
+  NO_ROUTE: ERROR_MESSAGES.NO_ROUTE,
+  RATE_LIMITED: ERROR_MESSAGES.ROUTING_UNAVAILABLE,
+  BUDGET_EXHAUSTED: ERROR_MESSAGES.ROUTING_UNAVAILABLE,
+  UPSTREAM_QUOTA: ERROR_MESSAGES.ROUTING_BUSY,
+  UPSTREAM_TIMEOUT: ERROR_MESSAGES.ROUTING_TIMEOUT,
+  UPSTREAM_ERROR: ERROR_MESSAGES.DIRECTIONS_FAILED,
+  FIXTURE_MISSING: ERROR_MESSAGES.ROUTE_FIXTURE_MISSING,
+  INTERNAL_ERROR: ERROR_MESSAGES.DIRECTIONS_FAILED,
+};
+
+/**
+ * Explain a failed route request to the user
+ */
+export function getRouteErrorMessage(error: Error): string {
+  return error instanceof RouteAPIError && error.code
+    ? ROUTE_ERROR_MESSAGES[error.code]
+    : ERROR_MESSAGES.DIRECTIONS_FAILED;
+}
+
+/**
+ * Retry only when our API couldn't be reached - the server has already
+ * retried upstream failures, and the other errors won't go away on retry
+ */
+function shouldRetry(failureCount: number, error: Error): boolean {
+  return (
+    !(error instanceof RouteAPIError && error.code) &&
+    failureCount < QUERY_CONFIG.RETRY
+  );
+}
+
+/**
+ * Fetch route
+ * Aborting the signal cancels the request all the way to the routing provider
  */
 async function fetchRoute(
-  params: GoogleRouteRequestParams
-): Promise<GoogleComputeRoutesResponse> {
+  params: RouteRequestParams,
+  signal?: AbortSignal
+): Promise<Route[]> {
   const response = await fetch("/api/routes", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
     body: JSON.stringify(params),
+    signal,
   });
   console.log("Fetch route response status:", response.status);
-  const result: GoogleRouteAPIResponse = await response.json();
+  const result: RouteAPIResponse = await response.json();
 
   if (!result.success || !result.data) {
-    throw new Error(result.error ?? "Failed to fetch route");
+    throw new RouteAPIError(
+      result.error ?? "Failed to fetch route",
+      response.status,
+      result.code,
+      result.retryAfter
+    );
   }
 
   return result.data;
 }
 
-export function useRoutes(options: UseRoutesOptions = {}): UseRoutesReturn {
-  const [routeParams, setRouteParams] = useState<RouteParams | null>(null);
-
+/**
+ * Combine route coordinates with the hook options into API request params
+ */
+function buildRequestParams(
+  routeParams: RouteParams,
+  options: UseRoutesOptions
+): RouteRequestParams {
   const {
     travelMode = "WALK",
     routingPreference,
@@ -106,23 +268,104 @@ export function useRoutes(options: UseRoutesOptions = {}): UseRoutesReturn {
     avoidTolls = false,
     avoidHighways = false,
     avoidFerries = false,
+    departureTime,
+    arrivalTime,
+    intermediates,
+    provider,
+  } = options;
+
+  return {
+    originLat: routeParams.originLat,
+    originLng: routeParams.originLng,
+    destinationLat: routeParams.destinationLat,
+    destinationLng: routeParams.destinationLng,
+    travelMode,
+    routingPreference,
+    units,
+    computeAlternativeRoutes,
+    avoidTolls,
+    avoidHighways,
+    avoidFerries,
+    departureTime,
+    arrivalTime,
+    intermediates: intermediates?.map(([longitude, latitude]) => ({
+      latitude,
+      longitude,
+    })),
+    provider,
+  };
+}
+
+/**
+ * Fetch a route matrix from our API endpoint
+ */
+async function fetchRouteMatrix(
+  params: GoogleRouteMatrixRequestParams,
+  signal?: AbortSignal
+): Promise<GoogleRouteMatrixElement[]> {
+  const response = await fetch("/api/routes/matrix", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+    signal,
+  });
+  const result: GoogleRouteMatrixAPIResponse = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new RouteAPIError(
+      result.error ?? "Failed to fetch route matrix",
+      response.status,
+      result.code,
+      result.retryAfter
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Arrange route matrix elements into a [origin][destination] table of seconds
+ */
+function buildDurationMatrix(
+  elements: GoogleRouteMatrixElement[],
+  originCount: number,
+  destinationCount: number
+): (number | null)[][] {
+  const durations: (number | null)[][] = Array.from(
+    { length: originCount },
+    () => new Array(destinationCount).fill(null)
+  );
+
+  elements.forEach((element) => {
+    if (element.condition !== "ROUTE_EXISTS" || !element.duration) return;
+
+    // Google omits zero values, so a missing index means 0
+    const originIndex = element.originIndex ?? 0;
+    const destinationIndex = element.destinationIndex ?? 0;
+    durations[originIndex][destinationIndex] = parseFloat(
+      element.duration.replace("s", "")
+    );
+  });
+
+  return durations;
+}
+
+export function useRoutes(options: UseRoutesOptions = {}): UseRoutesReturn {
+  const [routeParams, setRouteParams] = useState<RouteParams | null>(null);
+
+  const {
+    travelMode = "WALK",
+    departureTime,
+    arrivalTime,
+    computeAlternativeRoutes,
+    provider,
   } = options;
 
   // Build the request params when we have route params
-  const requestParams: GoogleRouteRequestParams | null = routeParams
-    ? {
-        originLat: routeParams.originLat,
-        originLng: routeParams.originLng,
-        destinationLat: routeParams.destinationLat,
-        destinationLng: routeParams.destinationLng,
-        travelMode,
-        routingPreference,
-        units,
-        computeAlternativeRoutes,
-        avoidTolls,
-        avoidHighways,
-        avoidFerries,
-      }
+  const requestParams: RouteRequestParams | null = routeParams
+    ? buildRequestParams(routeParams, options)
     : null;
 
   const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
@@ -132,13 +375,18 @@ export function useRoutes(options: UseRoutesOptions = {}): UseRoutesReturn {
           routeParams.originLng,
           routeParams.destinationLat,
           routeParams.destinationLng,
-          travelMode
+          travelMode,
+          departureTime,
+          arrivalTime,
+          computeAlternativeRoutes,
+          provider
         )
       : routeQueryKeys.all,
-    queryFn: () => fetchRoute(requestParams!),
+    queryFn: ({ signal }) => fetchRoute(requestParams!, signal),
     enabled: routeParams !== null,
     staleTime: 5 * 60 * 1000, // 5 minutes - routes don't change often
     gcTime: 30 * 60 * 1000, // 30 minutes cache
+    retry: shouldRetry,
   });
 
   const getRoute = useCallback(
@@ -174,6 +422,207 @@ export function useRoutes(options: UseRoutesOptions = {}): UseRoutesReturn {
   };
 }
 
+/**
+ * Hook for fetching one route per origin to a shared destination
+ * Used for group meetups where every participant travels to the same hub,
+ * each in their own travel mode. Set computeAlternativeRoutes to get every
+ * route the provider suggests rather than just the preferred one.
+ *
+ * @param origins - Starting location and travel mode of every participant
+ * @param destination - Shared destination [lng, lat], or null to disable
+ */
+export function useParticipantRoutes(
+  origins: TravelOrigin[],
+  destination: [number, number] | null,
+  options: Omit<UseRoutesOptions, "travelMode"> = {}
+): UseParticipantRoutesReturn {
+  const results = useQueries({
+    queries: origins.map(({ point: [originLng, originLat], travelMode }) => {
+      const routeParams: RouteParams | null = destination
+        ? {
+            originLat,
+            originLng,
+            destinationLat: destination[1],
+            destinationLng: destination[0],
+          }
+        : null;
+
+      return {
+        queryKey: routeParams
+          ? routeQueryKeys.route(
+              routeParams.originLat,
+              routeParams.originLng,
+              routeParams.destinationLat,
+              routeParams.destinationLng,
+              travelMode,
+              options.departureTime,
+              options.arrivalTime,
+              options.computeAlternativeRoutes,
+              options.provider
+            )
+          : routeQueryKeys.all,
+        queryFn: ({ signal }) =>
+          fetchRoute(
+            buildRequestParams(routeParams!, { ...options, travelMode }),
+            signal
+          ),
+        enabled: routeParams !== null,
+        staleTime: 5 * 60 * 1000, // 5 minutes - routes don't change often
+        gcTime: 30 * 60 * 1000, // 30 minutes cache
+        retry: shouldRetry,
+      };
+    }),
+  });
+
+  const firstError = results.find((result) => result.error)?.error ?? null;
+
+  return {
+    routes: results.map((result) => result.data ?? null),
+    isLoading: results.some((result) => result.isLoading),
+    isFetching: results.some((result) => result.isFetching),
+    isError: results.some((result) => result.isError),
+    error: firstError as Error | null,
+  };
+}
+
+interface UseRouteViaReturn {
+  /** Preferred route, one leg per intermediate stop plus one (null until loaded) */
+  route: Route | null;
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for fetching a route that passes through a series of stops in order
+ * Used for pub crawls, where each leg ends at the next pub
+ *
+ * @param origin - Starting location [lng, lat], or null to disable
+ * @param destination - Final destination [lng, lat], or null to disable
+ * @param intermediates - Stops to pass through in order [lng, lat]
+ */
+export function useRouteVia(
+  origin: [number, number] | null,
+  destination: [number, number] | null,
+  intermediates: [number, number][],
+  travelMode: GoogleRouteTravelMode = "WALK",
+  provider?: RoutingProviderName
+): UseRouteViaReturn {
+  const routeParams: RouteParams | null =
+    origin && destination
+      ? {
+          originLat: origin[1],
+          originLng: origin[0],
+          destinationLat: destination[1],
+          destinationLng: destination[0],
+        }
+      : null;
+
+  const { data, isLoading, isFetching, isError, error } = useQuery({
+    queryKey:
+      origin && destination
+        ? routeQueryKeys.via(
+            origin,
+            destination,
+            intermediates,
+            travelMode,
+            provider
+          )
+        : routeQueryKeys.all,
+    queryFn: ({ signal }) =>
+      fetchRoute(
+        buildRequestParams(routeParams!, {
+          travelMode,
+          intermediates,
+          provider,
+        }),
+        signal
+      ),
+    enabled: routeParams !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes - routes don't change often
+    gcTime: 30 * 60 * 1000, // 30 minutes cache
+    retry: shouldRetry,
+  });
+
+  return {
+    route: data?.[0] ?? null,
+    isLoading,
+    isFetching,
+    isError,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Hook for fetching journey times from every origin to every destination
+ * Each origin is routed separately in its own travel mode, so the results
+ * share a common time scale even when participants travel differently
+ *
+ * @param origins - Starting location and travel mode of every participant
+ * @param destinations - Candidate destinations [lng, lat]
+ */
+export function useRouteMatrix(
+  origins: TravelOrigin[],
+  destinations: [number, number][],
+  options: Pick<
+    UseRoutesOptions,
+    "units" | "departureTime" | "arrivalTime"
+  > = {}
+): UseRouteMatrixReturn {
+  const { units = "METRIC", departureTime, arrivalTime } = options;
+  const toLatLng = ([longitude, latitude]: [number, number]) => ({
+    latitude,
+    longitude,
+  });
+
+  const results = useQueries({
+    queries: origins.map(({ point, travelMode }) => ({
+      queryKey: routeQueryKeys.matrix(
+        [point],
+        destinations,
+        travelMode,
+        departureTime,
+        arrivalTime
+      ),
+      queryFn: ({ signal }) =>
+        fetchRouteMatrix(
+          {
+            origins: [toLatLng(point)],
+            destinations: destinations.map(toLatLng),
+            travelMode,
+            units,
+            departureTime,
+            arrivalTime,
+          },
+          signal
+        ),
+      enabled: destinations.length > 0,
+      staleTime: 5 * 60 * 1000, // 5 minutes - journey times don't change often
+      gcTime: 30 * 60 * 1000, // 30 minutes cache
+      retry: shouldRetry,
+    })),
+  });
+
+  // Only build the matrix once every origin's row has arrived
+  const isComplete =
+    results.length > 0 && results.every((result) => result.data);
+  const firstError = results.find((result) => result.error)?.error ?? null;
+
+  return {
+    durations: isComplete
+      ? results.map(
+          (result) =>
+            buildDurationMatrix(result.data!, 1, destinations.length)[0]
+        )
+      : null,
+    isLoading: results.some((result) => result.isLoading),
+    isFetching: results.some((result) => result.isFetching),
+    isError: results.some((result) => result.isError),
+    error: firstError as Error | null,
+  };
+}
+
 /**
  * Hook for prefetching route data (useful for performance optimization)
  */
@@ -182,7 +631,7 @@ export function usePrefetchRoute() {
 
   const prefetchRoute = useCallback(
     (
-      params: GoogleRouteRequestParams,
+      params: RouteRequestParams,
       travelMode: GoogleRouteTravelMode = "WALK"
     ) => {
       queryClient.prefetchQuery({
@@ -191,7 +640,11 @@ export function usePrefetchRoute() {
           params.originLng,
           params.destinationLat,
           params.destinationLng,
-          travelMode
+          travelMode,
+          params.departureTime,
+          params.arrivalTime,
+          params.computeAlternativeRoutes,
+          params.provider
         ),
         queryFn: () => fetchRoute(params),
       });
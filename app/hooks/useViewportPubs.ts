@@ -0,0 +1,121 @@
+/**
+ * useViewportPubs Hook
+ * Custom React hook that loads only the pubs in view, following the map as it moves
+ */
+
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useMap } from "@/providers/MapProvider";
+import { useDebounce } from "./useDebounce";
+import { pubQueryKeys } from "./usePubData";
+import {
+  LONDON_MAP_CONFIG,
+  QUERY_CONFIG,
+  VIEWPORT_CONFIG,
+} from "@/lib/constants";
+import { fetchPubsInBounds } from "@/lib/services/londonGIS";
+import { getViewportKey, parseViewportKey } from "@/lib/utils/viewport";
+import type { LondonMapBounds } from "@/types/map";
+import type { PubFeatureCollection, PubFilters } from "@/types/pub";
+
+const EMPTY_COLLECTION: PubFeatureCollection = {
+  type: "FeatureCollection",
+  features: [],
+};
+
+interface UseViewportPubsOptions {
+  /** Whether to load at all */
+  enabled?: boolean;
+  /** Lowest zoom that loads pubs, so a zoomed out map doesn't fetch all of London */
+  minZoom?: number;
+  /** Filters applied by the London GIS server */
+  filters?: PubFilters;
+}
+
+interface UseViewportPubsReturn {
+  /** Pubs in the last loaded viewport, kept while the next one loads */
+  pubs: PubFeatureCollection;
+  /** Area the pubs were requested for, null before the map has loaded */
+  bounds: LondonMapBounds | null;
+  /** Whether the map is zoomed out past minZoom, so nothing is loaded */
+  isZoomedOut: boolean;
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for the pubs inside the visible part of the map
+ * Must be used inside a MapProvider. The viewport is snapped outward to a
+ * grid and debounced, so panning a little or mid-gesture doesn't refetch.
+ */
+export function useViewportPubs({
+  enabled = true,
+  minZoom = VIEWPORT_CONFIG.MIN_ZOOM,
+  filters,
+}: UseViewportPubsOptions = {}): UseViewportPubsReturn {
+  const { map, isLoaded } = useMap();
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!map || !isLoaded) return () => {};
+
+      map.on("moveend", onChange);
+      return () => {
+        map.off("moveend", onChange);
+      };
+    },
+    [map, isLoaded]
+  );
+
+  const readViewportKey = useCallback(() => {
+    if (!map || !isLoaded) return "";
+
+    const bounds = map.getBounds();
+    if (!bounds) return "";
+
+    return getViewportKey(
+      {
+        west: bounds.getWest(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        north: bounds.getNorth(),
+      },
+      map.getZoom()
+    );
+  }, [map, isLoaded]);
+
+  const viewportKey = useDebounce(
+    useSyncExternalStore(subscribe, readViewportKey, () => ""),
+    VIEWPORT_CONFIG.DEBOUNCE
+  );
+  const viewport = parseViewportKey(viewportKey);
+  const isZoomedOut = viewport !== null && viewport.zoom < minZoom;
+
+  const { data, isLoading, isFetching, isError, error } = useQuery({
+    // Disabled until the map loads, so the fallback key is never fetched
+    queryKey: pubQueryKeys.bounds(
+      viewport?.bounds ?? LONDON_MAP_CONFIG.BOUNDS,
+      filters
+    ),
+    queryFn: ({ signal }) =>
+      fetchPubsInBounds(viewport!.bounds, filters, signal),
+    enabled: enabled && viewport !== null && !isZoomedOut,
+    // Keep the last viewport's pubs on the map while the next ones load
+    placeholderData: keepPreviousData,
+    staleTime: QUERY_CONFIG.STALE_TIME,
+  });
+
+  return {
+    pubs: (!isZoomedOut && data) || EMPTY_COLLECTION,
+    bounds: viewport?.bounds ?? null,
+    isZoomedOut,
+    isLoading,
+    isFetching,
+    isError,
+    error: error as Error | null,
+  };
+}
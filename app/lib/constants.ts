@@ -4,6 +4,7 @@
  */
 
 import type { LondonMapBounds } from "../types/map";
+import type { GoogleRouteTravelMode, TransportMode } from "../types/routes";
 
 /**
  * London GIS API Configuration
@@ -32,6 +33,71 @@ export const LONDON_GIS_API = {
   },
 } as const;
 
+/**
+ * Pub Snapshot Configuration
+ * /api/pubs serves a copy of the London GIS pubs layer kept on the server.
+ * Override the refresh interval with NEXT_PRIVATE_PUBS_REFRESH_MINUTES.
+ */
+export const PUB_SNAPSHOT_CONFIG = {
+  /** How long a snapshot is served before it is fetched again (ms) */
+  REFRESH_INTERVAL: 6 * 60 * 60 * 1000, // 6 hours - the layer changes rarely
+
+  /** How soon to retry the live layer while serving the bundled dataset (ms) */
+  RETRY_INTERVAL: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Bundled Pub Dataset Configuration
+ * A snapshot of the pubs layer committed to the repo, written by
+ * scripts/ingest-pubs.ts and served when the London GIS server is down
+ */
+export const PUB_DATASET_CONFIG = {
+  /** Snapshot location, relative to the project root */
+  PATH: "data/pubs.geojson",
+
+  /** Snapshot format version */
+  SCHEMA_VERSION: 1,
+
+  /** Decimal places kept in coordinates (about 10 cm) */
+  COORDINATE_DECIMALS: 6,
+
+  /** Largest share of pubs that may fail validation before ingestion aborts */
+  MAX_REJECTED_SHARE: 0.05,
+} as const;
+
+/**
+ * Pub Changes Configuration
+ * Openings, closures and edits found by comparing pub dataset snapshots
+ */
+export const PUB_CHANGES_CONFIG = {
+  /** Changelog written by scripts/ingest-pubs.ts, relative to the project root */
+  PATH: "data/pub-changes.json",
+
+  /** Smallest distance a pub must shift to count as moved (meters) */
+  MOVE_THRESHOLD: 25,
+
+  /** Change sets found by the server itself that are kept in memory */
+  MAX_LIVE_CHANGE_SETS: 20,
+
+  /** How far back a closure counts as recent (days) */
+  RECENT_DAYS: 90,
+} as const;
+
+/**
+ * Viewport Loading Configuration
+ * Loading only the pubs in view, for embeds and low-end phones
+ */
+export const VIEWPORT_CONFIG = {
+  /** Below this zoom the view covers too much of London to load by area */
+  MIN_ZOOM: 12,
+
+  /** Grid the viewport snaps out to, so small pans reuse a query (degrees) */
+  GRID_SIZE: 0.01,
+
+  /** How long the map must stay still before loading (ms) */
+  DEBOUNCE: 300,
+} as const;
+
 /**
  * Mapbox Configuration
  */
@@ -56,6 +122,12 @@ export const MAPBOX_CONFIG = {
     CYCLING: "cycling",
     DRIVING_TRAFFIC: "driving-traffic",
   },
+
+  /** Directions API base URL (append /{profile}/{coordinates}) */
+  DIRECTIONS_API_URL: "https://api.mapbox.com/directions/v5/mapbox",
+
+  /** Isochrone API base URL (append /{profile}/{lng},{lat}) */
+  ISOCHRONE_API_URL: "https://api.mapbox.com/isochrone/v1/mapbox",
 } as const;
 
 /**
@@ -89,6 +161,187 @@ export const LONDON_MAP_CONFIG = {
   ] as [[number, number], [number, number]],
 } as const;
 
+/**
+ * Meetup Search Configuration
+ */
+export const MEETUP_CONFIG = {
+  /** Minimum number of participants needed to run a search */
+  MIN_PARTICIPANTS: 2,
+
+  /** Maximum number of participants in a single search */
+  MAX_PARTICIPANTS: 8,
+
+  /** Number of open pubs to look for around the meeting point */
+  NEAREST_PUB_COUNT: 10,
+
+  /** Furthest from the meeting point to look for pubs (meters) */
+  MAX_SEARCH_RADIUS: 1500,
+
+  /** Straight-line speed assumed when a journey has no usable route (m/s) */
+  FALLBACK_SPEED: 1.4,
+
+  /** Average straight-line speed assumed for each transport mode (m/s) */
+  CROW_FLIES_SPEEDS: {
+    walking: 1.4,
+    cycling: 4,
+    transit: 5,
+  },
+
+  /** Default travel time budget for the "everyone within N minutes" mode */
+  ISOCHRONE_DEFAULT_MINUTES: 20,
+
+  /** Smallest and largest travel time budgets (Mapbox allows up to 60) */
+  ISOCHRONE_MIN_MINUTES: 5,
+  ISOCHRONE_MAX_MINUTES: 60,
+
+  /** Default distance from the routes to look for pubs in the corridor mode (meters) */
+  CORRIDOR_DEFAULT_WIDTH: 200,
+
+  /** Narrowest and widest corridors (meters) */
+  CORRIDOR_MIN_WIDTH: 50,
+  CORRIDOR_MAX_WIDTH: 500,
+
+  /** Largest number of pubs on a crawl */
+  MAX_CRAWL_STOPS: 6,
+
+  /** Furthest from the direct walk between two people to look for crawl stops (meters) */
+  CRAWL_SEARCH_WIDTH: 400,
+
+  /** Maximum candidate pubs sent to the route matrix */
+  MAX_MATRIX_CANDIDATES: 25,
+
+  /** How much further than an equal share a participant will travel (1 = equal) */
+  DEFAULT_TRAVEL_WEIGHT: 1,
+  MIN_TRAVEL_WEIGHT: 0.5,
+  MAX_TRAVEL_WEIGHT: 2,
+
+  /** Weights combining journey times into a single fairness score */
+  FAIRNESS_WEIGHTS: {
+    /** Longest journey of the group (minimax) */
+    MAX_TIME: 1,
+    /** Gap between the longest and shortest journeys */
+    TIME_DIFFERENCE: 0.5,
+    /** Sum of everyone's journeys */
+    TOTAL_TIME: 0.1,
+  },
+} as const;
+
+/**
+ * Google Routes API travel mode used for each transport mode
+ */
+export const TRANSPORT_TRAVEL_MODES = {
+  transit: "TRANSIT",
+  walking: "WALK",
+  cycling: "BICYCLE",
+} as const satisfies Record<TransportMode, GoogleRouteTravelMode>;
+
+/**
+ * Route Matrix Configuration
+ * Limits imposed by the Google Routes API computeRouteMatrix method
+ */
+export const ROUTE_MATRIX_CONFIG = {
+  /** Maximum origins x destinations per request */
+  MAX_ELEMENTS: 625,
+
+  /** Maximum origins x destinations per request in TRANSIT mode */
+  MAX_TRANSIT_ELEMENTS: 100,
+} as const;
+
+/**
+ * Routes API Validation Configuration
+ */
+export const ROUTE_VALIDATION_CONFIG = {
+  /**
+   * How far outside LONDON_MAP_CONFIG.BOUNDS a location may be (degrees)
+   * About 11 km north-south and 7 km east-west, so journeys can start just
+   * beyond the edge of the map
+   */
+  BOUNDS_MARGIN: 0.1,
+
+  /** Most stops a route may pass through (Google's limit) */
+  MAX_INTERMEDIATES: 25,
+} as const;
+
+/**
+ * Server-side Route Cache Configuration
+ */
+export const ROUTE_CACHE_CONFIG = {
+  /** Grid that origins, destinations and stops are rounded to (meters) */
+  GRID_SIZE: 25,
+
+  /** Most routes kept at once - the least recently used go first */
+  MAX_ENTRIES: 1000,
+
+  /** How long a route stays fresh for each travel mode (ms) */
+  TTL: {
+    WALK: 24 * 60 * 60 * 1000, // 24 hours - paths rarely change
+    BICYCLE: 24 * 60 * 60 * 1000, // 24 hours
+    TRANSIT: 10 * 60 * 1000, // 10 minutes - timetables move on
+    DRIVE: 10 * 60 * 1000, // 10 minutes - traffic moves on
+    TWO_WHEELER: 10 * 60 * 1000, // 10 minutes
+  },
+
+  /** TTL for travel modes not listed above (ms) */
+  DEFAULT_TTL: 10 * 60 * 1000,
+} as const;
+
+/**
+ * Routes API Limits Configuration
+ * Protects the Google key behind /api/routes from abuse and runaway bills.
+ * The budgets can be overridden with NEXT_PRIVATE_ROUTES_DAILY_BUDGET and
+ * NEXT_PRIVATE_ROUTES_MONTHLY_BUDGET (0 turns a budget off).
+ */
+export const ROUTE_LIMITS_CONFIG = {
+  /** Length of a rate limit window (ms) */
+  RATE_LIMIT_WINDOW: 60 * 1000,
+
+  /** Requests each client may make per window */
+  RATE_LIMIT_MAX_REQUESTS: 60,
+
+  /** Clients whose rate limit windows are remembered at once */
+  MAX_TRACKED_CLIENTS: 10000,
+
+  /** Upstream routing calls allowed per UTC day */
+  DAILY_BUDGET: 5000,
+
+  /** Upstream routing calls allowed per UTC month */
+  MONTHLY_BUDGET: 100000,
+} as const;
+
+/**
+ * Offline Routing Configuration
+ * The local provider draws straight lines at assumed speeds instead of
+ * calling a routing API. Enable it with NEXT_PRIVATE_ROUTING_PROVIDER=local.
+ */
+export const LOCAL_ROUTING_CONFIG = {
+  /** How much longer a real route is than the straight line */
+  DETOUR_FACTOR: 1.3,
+
+  /** Longest synthetic step (meters) */
+  MAX_STEP_LENGTH: 400,
+
+  /** Assumed speed for each travel mode (m/s) */
+  SPEEDS: {
+    WALK: 1.4,
+    BICYCLE: 4,
+    DRIVE: 8,
+    TWO_WHEELER: 8,
+    TRANSIT: 7,
+  },
+
+  /** Shortest journey worth taking transit for - shorter ones walk (meters) */
+  MIN_TRANSIT_DISTANCE: 1200,
+
+  /** Share of a transit journey walked at each end */
+  TRANSIT_WALK_SHARE: 0.1,
+
+  /** Time spent waiting for a transit vehicle (seconds) */
+  TRANSIT_WAIT: 300,
+
+  /** How far alternative routes bow out from the straight line, as a share of its length */
+  ALTERNATIVE_OFFSET: 0.15,
+} as const;
+
 /**
  * Clustering Configuration
  */
@@ -269,6 +522,14 @@ export const ERROR_MESSAGES = {
   DIRECTIONS_FAILED: "Failed to get directions. Please try again.",
   MAP_LOAD_FAILED: "Failed to load map. Please refresh the page.",
   INVALID_COORDINATES: "Invalid coordinates provided.",
+  OUT_OF_AREA: "That place is too far from London. Pick somewhere closer in.",
+  NO_ROUTE: "No route found between those places. Try another way to travel.",
+  ROUTING_BUSY: "Route planning is busy right now. Please try again shortly.",
+  ROUTING_TIMEOUT: "Route planning took too long. Please try again.",
+  ROUTING_UNAVAILABLE:
+    "Route planning is paused for now, so the meeting point is as the crow flies.",
+  ROUTE_FIXTURE_MISSING:
+    "No recorded route for this journey. Record it before replaying.",
 } as const;
 
 /**
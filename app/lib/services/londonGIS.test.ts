@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchPubsInBounds, fetchPubsNear } from "./londonGIS";
+
+const feature = (objectid: number, coordinates: [number, number]) => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates },
+  properties: { objectid, name: `Pub ${objectid}`, open_status: 1 },
+});
+
+/** Answer every query with these features, keeping the requested URLs */
+function stubLayer(...features: ReturnType<typeof feature>[]) {
+  const fetch = vi
+    .fn()
+    .mockImplementation(() =>
+      Promise.resolve(Response.json({ type: "FeatureCollection", features }))
+    );
+  vi.stubGlobal("fetch", fetch);
+  return () =>
+    fetch.mock.calls.map(([url]) => new URL(url as string).searchParams);
+}
+
+describe("London GIS area queries", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("asks for the pubs in an envelope", async () => {
+    const requests = stubLayer(feature(1, [-0.12, 51.51]));
+
+    const { features } = await fetchPubsInBounds(
+      { west: -0.13, south: 51.5, east: -0.08, north: 51.53 },
+      { openOnly: true }
+    );
+
+    const [params] = requests();
+    expect(Object.fromEntries(params)).toEqual(
+      expect.objectContaining({
+        geometry: "-0.13,51.5,-0.08,51.53",
+        geometryType: "esriGeometryEnvelope",
+        inSR: "4326",
+        spatialRel: "esriSpatialRelIntersects",
+        where: "open_status = 1",
+        orderByFields: "objectid",
+      })
+    );
+    expect(params.has("distance")).toBe(false);
+    expect(features).toHaveLength(1);
+  });
+
+  it("asks for the pubs within a distance of a point", async () => {
+    const requests = stubLayer();
+
+    await fetchPubsNear([-0.1276, 51.5074], 800);
+
+    expect(Object.fromEntries(requests()[0])).toEqual(
+      expect.objectContaining({
+        geometry: "-0.1276,51.5074",
+        geometryType: "esriGeometryPoint",
+        inSR: "4326",
+        spatialRel: "esriSpatialRelIntersects",
+        distance: "800",
+        units: "esriSRUnit_Meter",
+      })
+    );
+  });
+
+  it("sorts pubs near a point nearest first", async () => {
+    stubLayer(
+      feature(1, [-0.1, 51.5074]),
+      feature(2, [-0.127, 51.5074]),
+      feature(3, [-0.12, 51.5074])
+    );
+
+    const { features } = await fetchPubsNear([-0.1276, 51.5074], 2000);
+
+    expect(features.map(({ properties }) => properties.objectid)).toEqual([
+      2, 3, 1,
+    ]);
+  });
+});
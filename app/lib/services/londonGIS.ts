@@ -13,18 +13,24 @@ import type {
   Pub, 
   PubFeature, 
   PubFeatureCollection, 
+  PubFilters,
   LondonGISApiResponse 
 } from '../../types/pub';
+import type { LondonMapBounds } from '../../types/map';
 import { 
   LONDON_GIS_API, 
   API_CONFIG 
 } from '../constants';
+import { haversineDistance } from '../utils/coordinates';
+import { pubFiltersToWhere } from '../utils/pubFilters';
+import { where, type WhereClause } from '../utils/whereClause';
 
 /**
  * Query parameters for the London GIS API
  */
 export interface QueryParams {
-  where?: string;
+  /** Built with `where`, so values are always escaped */
+  where?: WhereClause;
   outFields?: string;
   f?: 'json' | 'geojson' | 'pbf';
   outSR?: number;
@@ -32,6 +38,18 @@ export interface QueryParams {
   resultRecordCount?: number;
   returnGeometry?: boolean;
   orderByFields?: string;
+  /** Area to search: "xmin,ymin,xmax,ymax" for an envelope, "x,y" for a point */
+  geometry?: string;
+  geometryType?: 'esriGeometryEnvelope' | 'esriGeometryPoint';
+  /** Spatial reference of the geometry */
+  inSR?: number;
+  spatialRel?:
+    | 'esriSpatialRelIntersects'
+    | 'esriSpatialRelContains'
+    | 'esriSpatialRelWithin';
+  /** Buffer around the geometry, in `units` */
+  distance?: number;
+  units?: 'esriSRUnit_Meter' | 'esriSRUnit_Kilometer';
 }
 
 /**
@@ -72,10 +90,17 @@ function buildQueryUrl(params: QueryParams = {}): string {
 /**
  * Fetch with timeout
  * Note: TanStack Query handles retries, but we add timeout protection here
+ *
+ * @param signal - Aborts the request, e.g. when TanStack Query cancels it
  */
-async function fetchWithTimeout(url: string): Promise<Response> {
+async function fetchWithTimeout(
+  url: string,
+  signal?: AbortSignal
+): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
 
   try {
     const response = await fetch(url, {
@@ -86,6 +111,7 @@ async function fetchWithTimeout(url: string): Promise<Response> {
     });
 
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
 
     if (!response.ok) {
       throw new LondonGISError(
@@ -97,6 +123,12 @@ async function fetchWithTimeout(url: string): Promise<Response> {
     return response;
   } catch (error) {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+
+    // The caller gave up, so this is a cancellation rather than a timeout
+    if (signal?.aborted) {
+      throw error;
+    }
     
     if (error instanceof Error && error.name === 'AbortError') {
       throw new LondonGISError('Request timed out', 408);
@@ -156,6 +188,70 @@ function transformResponse(response: LondonGISApiResponse): PubFeatureCollection
   };
 }
 
+/**
+ * Fetch every page of a query
+ * The server returns at most LONDON_GIS_API.MAX_RECORDS pubs per request
+ */
+async function fetchAllPages(
+  params: QueryParams = {},
+  signal?: AbortSignal
+): Promise<PubFeature[]> {
+  const allFeatures: PubFeature[] = [];
+  let offset = 0;
+  let hasMore = true;
+
+  // Fetch data with pagination
+  while (hasMore) {
+    const url = buildQueryUrl({
+      ...params,
+      // Pages only line up when every request sorts the same way
+      orderByFields: 'objectid',
+      resultOffset: offset,
+      resultRecordCount: LONDON_GIS_API.MAX_RECORDS,
+    });
+    console.log(`Fetching pubs: offset=${offset}`);
+
+    const response = await fetchWithTimeout(url, signal);
+    const data: LondonGISApiResponse = await response.json();
+
+    if (!data.features || data.features.length === 0) {
+      hasMore = false;
+      break;
+    }
+
+    const transformed = transformResponse(data);
+    allFeatures.push(...transformed.features);
+
+    // Check if we've reached the end
+    if (data.features.length < LONDON_GIS_API.MAX_RECORDS) {
+      hasMore = false;
+    } else {
+      offset += LONDON_GIS_API.MAX_RECORDS;
+    }
+
+    // Safety check: if API indicates transfer limit exceeded, we may need pagination
+    if (data.exceededTransferLimit) {
+      console.warn('Transfer limit exceeded, pagination may be required');
+    }
+  }
+
+  return allFeatures;
+}
+
+/**
+ * Wrap anything that isn't already a LondonGISError, leaving cancellations as they are
+ */
+function toLondonGISError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof LondonGISError || signal?.aborted) {
+    return error;
+  }
+  return new LondonGISError(
+    `Failed to fetch pubs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    undefined,
+    error
+  );
+}
+
 /**
  * Fetch all pubs from the London GIS API
  * Handles pagination automatically if needed
@@ -165,43 +261,7 @@ function transformResponse(response: LondonGISApiResponse): PubFeatureCollection
  */
 export async function fetchAllPubs(): Promise<PubFeatureCollection> {
   try {
-    const allFeatures: PubFeature[] = [];
-    let offset = 0;
-    let hasMore = true;
-
-    // Fetch data with pagination
-    while (hasMore) {
-      const params: QueryParams = {
-        resultOffset: offset,
-        resultRecordCount: LONDON_GIS_API.MAX_RECORDS,
-      };
-
-      const url = buildQueryUrl(params);
-      console.log(`Fetching pubs: offset=${offset}`);
-
-      const response = await fetchWithTimeout(url);
-      const data: LondonGISApiResponse = await response.json();
-
-      if (!data.features || data.features.length === 0) {
-        hasMore = false;
-        break;
-      }
-
-      const transformed = transformResponse(data);
-      allFeatures.push(...transformed.features);
-
-      // Check if we've reached the end
-      if (data.features.length < LONDON_GIS_API.MAX_RECORDS) {
-        hasMore = false;
-      } else {
-        offset += LONDON_GIS_API.MAX_RECORDS;
-      }
-
-      // Safety check: if API indicates transfer limit exceeded, we may need pagination
-      if (data.exceededTransferLimit) {
-        console.warn('Transfer limit exceeded, pagination may be required');
-      }
-    }
+    const allFeatures = await fetchAllPages();
 
     const result: PubFeatureCollection = {
       type: 'FeatureCollection',
@@ -212,14 +272,84 @@ export async function fetchAllPubs(): Promise<PubFeatureCollection> {
 
     return result;
   } catch (error) {
-    if (error instanceof LondonGISError) {
-      throw error;
-    }
-    throw new LondonGISError(
-      `Failed to fetch pubs: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      undefined,
-      error
+    throw toLondonGISError(error);
+  }
+}
+
+/**
+ * Fetch the pubs inside a bounding box, e.g. the visible part of the map
+ * Uses an ArcGIS envelope query, so only those pubs are downloaded
+ *
+ * @param bounds - Area to search in WGS84
+ * @param filters - Filters applied by the server as well
+ * @param signal - Aborts the request
+ */
+export async function fetchPubsInBounds(
+  bounds: LondonMapBounds,
+  filters: PubFilters = {},
+  signal?: AbortSignal
+): Promise<PubFeatureCollection> {
+  const { west, south, east, north } = bounds;
+
+  try {
+    const features = await fetchAllPages(
+      {
+        geometry: `${west},${south},${east},${north}`,
+        geometryType: 'esriGeometryEnvelope',
+        inSR: 4326,
+        spatialRel: 'esriSpatialRelIntersects',
+        where: pubFiltersToWhere(filters),
+      },
+      signal
+    );
+
+    return { type: 'FeatureCollection', features };
+  } catch (error) {
+    throw toLondonGISError(error, signal);
+  }
+}
+
+/**
+ * Fetch the pubs within a distance of a point, nearest first
+ * Uses an ArcGIS point query with a buffer distance
+ *
+ * @param point - Centre of the search [longitude, latitude]
+ * @param radius - Search radius in meters
+ * @param filters - Filters applied by the server as well
+ * @param signal - Aborts the request
+ */
+export async function fetchPubsNear(
+  point: [number, number],
+  radius: number,
+  filters: PubFilters = {},
+  signal?: AbortSignal
+): Promise<PubFeatureCollection> {
+  try {
+    const features = await fetchAllPages(
+      {
+        geometry: `${point[0]},${point[1]}`,
+        geometryType: 'esriGeometryPoint',
+        inSR: 4326,
+        spatialRel: 'esriSpatialRelIntersects',
+        distance: radius,
+        units: 'esriSRUnit_Meter',
+        where: pubFiltersToWhere(filters),
+      },
+      signal
     );
+
+    // The server doesn't order by distance
+    const distances = new Map(
+      features.map((pub) => [
+        pub,
+        haversineDistance(point, pub.geometry.coordinates),
+      ])
+    );
+    features.sort((a, b) => distances.get(a)! - distances.get(b)!);
+
+    return { type: 'FeatureCollection', features };
+  } catch (error) {
+    throw toLondonGISError(error, signal);
   }
 }
 
@@ -253,7 +383,7 @@ export async function fetchPubsWithQuery(
 export async function fetchPubById(objectId: number): Promise<PubFeature | null> {
   try {
     const params: QueryParams = {
-      where: `objectid=${objectId}`,
+      where: where.eq('objectid', objectId),
       resultRecordCount: 1,
     };
 
@@ -273,7 +403,7 @@ export async function fetchPubsByBorough(
 ): Promise<PubFeatureCollection> {
   try {
     const params: QueryParams = {
-      where: `borough_name='${borough.replace(/'/g, "''")}'`, // Escape single quotes
+      where: where.eq('borough_name', borough),
     };
 
     return await fetchPubsWithQuery(params);
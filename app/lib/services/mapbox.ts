@@ -1,6 +1,78 @@
 /**
  * Mapbox API Service
- * Handles Mapbox Directions API and other Mapbox services
+ * Handles the Mapbox Isochrone API and other Mapbox services
+ * (Directions routing lives with the other providers in ./routing)
+ *
+ * This service provides pure data-fetching functions.
+ * Caching is handled by TanStack Query in the React layer.
  */
 
-// Implementation - Ticket 5.1
+import { API_CONFIG, MAPBOX_CONFIG } from "../constants";
+
+/**
+ * Mapbox routing profiles supported by the Isochrone API
+ */
+export type IsochroneProfile =
+  | typeof MAPBOX_CONFIG.DIRECTIONS_PROFILES.WALKING
+  | typeof MAPBOX_CONFIG.DIRECTIONS_PROFILES.CYCLING
+  | typeof MAPBOX_CONFIG.DIRECTIONS_PROFILES.DRIVING;
+
+/**
+ * Error class for Mapbox API errors
+ */
+export class MapboxError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = "MapboxError";
+  }
+}
+
+/**
+ * Fetch the area reachable from a point within a travel time
+ * @see https://docs.mapbox.com/api/navigation/isochrone/
+ *
+ * @param point - Starting location [lng, lat]
+ * @param minutes - Travel time budget (1-60 minutes)
+ * @param profile - Mapbox routing profile
+ * @returns The reachable area as a GeoJSON polygon
+ */
+export async function fetchIsochrone(
+  point: [number, number],
+  minutes: number,
+  profile: IsochroneProfile
+): Promise<GeoJSON.Polygon> {
+  const url = new URL(
+    `${MAPBOX_CONFIG.ISOCHRONE_API_URL}/${profile}/${point[0]},${point[1]}`
+  );
+  url.searchParams.set("contours_minutes", String(Math.round(minutes)));
+  url.searchParams.set("polygons", "true");
+  url.searchParams.set(
+    "access_token",
+    process.env.NEXT_PUBLIC_MAPBOX_TOKEN ?? ""
+  );
+
+  const response = await fetch(url.toString(), {
+    signal: AbortSignal.timeout(API_CONFIG.TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new MapboxError(
+      `Isochrone request failed: ${response.status}`,
+      response.status,
+      await response.json().catch(() => undefined)
+    );
+  }
+
+  const data: GeoJSON.FeatureCollection = await response.json();
+  const geometry = data.features?.[0]?.geometry;
+
+  if (!geometry || geometry.type !== "Polygon") {
+    throw new MapboxError("Isochrone response did not contain a polygon");
+  }
+
+  return geometry;
+}
@@ -0,0 +1,68 @@
+/**
+ * Pub Changes Service
+ * Keeps the history of the pubs layer: the changelog committed by the
+ * ingestion script, plus changes the server saw while refreshing its
+ * snapshot since it started
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { PUB_CHANGES_CONFIG } from "@/lib/constants";
+import { diffPubs } from "@/lib/utils/pubDiff";
+import type { PubChangeSet } from "@/types/pub";
+import type { PubSnapshot } from "./pubSnapshot";
+
+let committed: Promise<PubChangeSet[]> | null = null;
+let liveChangeSets: PubChangeSet[] = [];
+
+/**
+ * Read the committed changelog, newest first
+ *
+ * @returns The change sets, or none when there is no changelog
+ */
+export async function readPubChangelog(
+  filePath = path.resolve(process.cwd(), PUB_CHANGES_CONFIG.PATH)
+): Promise<PubChangeSet[]> {
+  try {
+    const changeSets: unknown = JSON.parse(await readFile(filePath, "utf8"));
+    if (!Array.isArray(changeSets)) {
+      console.warn(`Ignoring ${PUB_CHANGES_CONFIG.PATH}: unknown format`);
+      return [];
+    }
+    return changeSets;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to read ${PUB_CHANGES_CONFIG.PATH}:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Compare a snapshot with the one that replaced it and keep any changes
+ */
+export function recordPubChanges(
+  before: PubSnapshot,
+  after: PubSnapshot
+): void {
+  if (before.version === after.version) return;
+
+  const changes = diffPubs(before.pubs.features, after.pubs.features);
+  if (changes.length === 0) return;
+
+  liveChangeSets = [
+    { from: before.fetchedAt, to: after.fetchedAt, changes },
+    ...liveChangeSets,
+  ].slice(0, PUB_CHANGES_CONFIG.MAX_LIVE_CHANGE_SETS);
+}
+
+/**
+ * Every known change set, newest first
+ */
+export async function getPubChanges(): Promise<PubChangeSet[]> {
+  committed ??= readPubChangelog();
+
+  return [...liveChangeSets, ...(await committed)].sort(
+    (a, b) => Date.parse(b.to) - Date.parse(a.to)
+  );
+}
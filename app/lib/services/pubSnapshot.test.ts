@@ -0,0 +1,102 @@
+import { readFile } from "node:fs/promises";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchAllPubs } from "@/lib/services/londonGIS";
+import { recordPubChanges } from "@/lib/services/pubChanges";
+import {
+  normalizePubDataset,
+  serializePubDataset,
+} from "@/lib/utils/pubDataset";
+import type { PubFeature, PubFeatureCollection } from "@/types/pub";
+
+vi.mock("node:fs/promises", () => ({ readFile: vi.fn() }));
+vi.mock("@/lib/services/londonGIS", () => ({ fetchAllPubs: vi.fn() }));
+vi.mock("@/lib/services/pubChanges", () => ({ recordPubChanges: vi.fn() }));
+
+function pub(objectid: number, name: string): PubFeature {
+  const coordinates: [number, number] = [-0.1276, 51.5074];
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates },
+    properties: {
+      objectid,
+      name,
+      address1: "1 High Street",
+      borough_name: "Westminster",
+      postcode: "sw1a1aa",
+      x: 530000,
+      y: 180000,
+      open_status: 1,
+    },
+  };
+}
+
+const collection = (...features: PubFeature[]): PubFeatureCollection => ({
+  type: "FeatureCollection",
+  features,
+});
+
+describe("getPubSnapshot", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+  });
+
+  it("shares the first load between concurrent requests", async () => {
+    const { dataset } = normalizePubDataset(
+      collection(pub(1, "The Lamb")),
+      "https://example.com",
+      new Date("2026-01-01")
+    );
+    vi.mocked(readFile).mockResolvedValue(serializePubDataset(dataset));
+    vi.mocked(fetchAllPubs).mockResolvedValue(
+      collection(pub(1, "The Lamb"), pub(2, "The Flask"))
+    );
+    const { getPubSnapshot } = await import("./pubSnapshot");
+
+    const [first, second] = await Promise.all([
+      getPubSnapshot(),
+      getPubSnapshot(),
+    ]);
+    await vi.waitFor(() => expect(recordPubChanges).toHaveBeenCalled());
+
+    expect(second).toBe(first);
+    expect(fetchAllPubs).toHaveBeenCalledTimes(1);
+    expect(recordPubChanges).toHaveBeenCalledTimes(1);
+  });
+
+  it("normalises live pubs like the bundled dataset", async () => {
+    vi.mocked(readFile).mockRejectedValue(
+      Object.assign(new Error("missing"), { code: "ENOENT" })
+    );
+    vi.mocked(fetchAllPubs).mockResolvedValue(
+      collection(pub(2, "  The   Flask "), pub(1, "The Lamb"), pub(3, ""))
+    );
+    const { getPubSnapshot } = await import("./pubSnapshot");
+
+    const { pubs } = await getPubSnapshot();
+
+    expect(pubs.features.map(({ properties }) => properties.name)).toEqual([
+      "The Lamb",
+      "The Flask",
+    ]);
+    expect(pubs.features[0].properties.postcode).toBe("SW1A 1AA");
+  });
+
+  it("labels the seed as sample pubs when the layer is down", async () => {
+    const { dataset } = normalizePubDataset(
+      collection(pub(1, "The Lamb")),
+      "https://example.com",
+      new Date("2026-01-01")
+    );
+    dataset.metadata.seed = true;
+    vi.mocked(readFile).mockResolvedValue(serializePubDataset(dataset));
+    vi.mocked(fetchAllPubs).mockRejectedValue(new Error("offline"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { getPubSnapshot } = await import("./pubSnapshot");
+
+    const { source, pubs } = await getPubSnapshot();
+
+    expect(source).toBe("seed");
+    expect(pubs.features).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Pub Snapshot Service
+ * Keeps a server-side copy of the London GIS pubs layer, so each browser
+ * loads every pub in one request instead of paginating the ArcGIS server
+ *
+ * The snapshot lives in the server process. Once it is older than the
+ * refresh interval it is still served while a fresh copy loads in the
+ * background, and kept if that refresh fails. Until the first live fetch
+ * succeeds, the dataset bundled in the repo is served instead.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  LONDON_GIS_API,
+  PUB_DATASET_CONFIG,
+  PUB_SNAPSHOT_CONFIG,
+} from "@/lib/constants";
+import { fetchAllPubs } from "@/lib/services/londonGIS";
+import { recordPubChanges } from "@/lib/services/pubChanges";
+import { isPubDataset, normalizePubDataset } from "@/lib/utils/pubDataset";
+import type { PubDataSourceInfo, PubFeatureCollection } from "@/types/pub";
+
+export interface PubSnapshot extends PubDataSourceInfo {
+  pubs: PubFeatureCollection;
+  /** Hash of the snapshot's contents, for ETags */
+  version: string;
+}
+
+let snapshot: PubSnapshot | null = null;
+let pending: Promise<PubSnapshot> | null = null;
+let loading: Promise<PubSnapshot> | null = null;
+let nextRefreshAt = 0;
+
+/**
+ * Refresh interval set by the environment, or the default
+ */
+function getRefreshInterval(): number {
+  const minutes = Number(process.env.NEXT_PRIVATE_PUBS_REFRESH_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0
+    ? minutes * 60 * 1000
+    : PUB_SNAPSHOT_CONFIG.REFRESH_INTERVAL;
+}
+
+/**
+ * Hash a string into a short version identifier
+ */
+export function hashVersion(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Read the dataset bundled in the repo
+ *
+ * @returns The bundled pubs, or null when there is no usable snapshot
+ */
+async function readBundledSnapshot(): Promise<PubSnapshot | null> {
+  try {
+    const contents = await readFile(
+      path.resolve(process.cwd(), PUB_DATASET_CONFIG.PATH),
+      "utf8"
+    );
+    const dataset: unknown = JSON.parse(contents);
+
+    if (!isPubDataset(dataset)) {
+      console.warn(`Ignoring ${PUB_DATASET_CONFIG.PATH}: unknown format`);
+      return null;
+    }
+
+    return {
+      pubs: { type: "FeatureCollection", features: dataset.features },
+      version: hashVersion(contents),
+      source: dataset.metadata.seed ? "seed" : "bundled",
+      fetchedAt: dataset.metadata.fetchedAt,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to read ${PUB_DATASET_CONFIG.PATH}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Fetch a new snapshot, sharing one fetch between concurrent callers
+ */
+function refreshSnapshot(): Promise<PubSnapshot> {
+  // Wait a full interval before trying again, even after a failure
+  nextRefreshAt = Date.now() + getRefreshInterval();
+
+  pending ??= fetchAllPubs()
+    .then((collection) => {
+      // Clean live pubs like the ingestion does, so comparing them with the
+      // bundled dataset only finds real changes
+      const { dataset } = normalizePubDataset(
+        collection,
+        LONDON_GIS_API.PUBS_QUERY_URL,
+        new Date()
+      );
+      const pubs: PubFeatureCollection = {
+        type: "FeatureCollection",
+        features: dataset.features,
+      };
+
+      const previous = snapshot;
+      snapshot = {
+        pubs,
+        version: hashVersion(JSON.stringify(pubs)),
+        source: "live",
+        fetchedAt: dataset.metadata.fetchedAt,
+      };
+      // The seed's sample pubs aren't layer data, so replacing them isn't a change
+      if (previous && previous.source !== "seed") {
+        recordPubChanges(previous, snapshot);
+      }
+      return snapshot;
+    })
+    .finally(() => {
+      pending = null;
+    });
+
+  return pending;
+}
+
+/**
+ * Load the first snapshot: live when the London GIS server answers,
+ * otherwise the bundled dataset
+ */
+async function loadSnapshot(): Promise<PubSnapshot> {
+  try {
+    const live = await refreshSnapshot();
+
+    // Pick up the history since the bundled dataset was taken
+    readBundledSnapshot().then(
+      (bundled) =>
+        bundled?.source === "bundled" && recordPubChanges(bundled, live)
+    );
+
+    return live;
+  } catch (error) {
+    const bundled = await readBundledSnapshot();
+    if (!bundled) throw error;
+
+    console.warn("London GIS is unavailable, serving the bundled pubs");
+    // Try the live layer again sooner than a full interval
+    nextRefreshAt = Date.now() + PUB_SNAPSHOT_CONFIG.RETRY_INTERVAL;
+    snapshot ??= bundled;
+    return snapshot;
+  }
+}
+
+/**
+ * Get the current snapshot, loading it first when there is none
+ *
+ * @throws LondonGISError when neither the London GIS layer nor the bundled
+ * dataset can be read
+ */
+export async function getPubSnapshot(): Promise<PubSnapshot> {
+  if (!snapshot) {
+    // Requests arriving before the first load finishes share it, so the
+    // bundled dataset's changes are only recorded once
+    loading ??= loadSnapshot().finally(() => {
+      loading = null;
+    });
+    return loading;
+  }
+
+  if (Date.now() >= nextRefreshAt) {
+    refreshSnapshot().catch((error) =>
+      console.error("Failed to refresh pub snapshot:", error)
+    );
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ROUTE_CACHE_CONFIG } from "@/lib/constants";
+import type { Route, RouteRequestParams } from "@/types/routing";
+import {
+  clearRouteCache,
+  getCachedRoutes,
+  getRouteCacheKey,
+  getRouteCacheStats,
+  setCachedRoutes,
+} from "./cache";
+
+const METERS_PER_DEGREE = 111320;
+
+const params: RouteRequestParams = {
+  originLat: 51.5074,
+  originLng: -0.1276,
+  destinationLat: 51.5155,
+  destinationLng: -0.0922,
+};
+
+/** The request with its origin moved meters north */
+const movedNorth = (meters: number): RouteRequestParams => ({
+  ...params,
+  originLat: params.originLat + meters / METERS_PER_DEGREE,
+});
+
+const routes = (duration: number): Route[] => [
+  { distance: duration, duration, legs: [] },
+];
+
+describe("getRouteCacheKey", () => {
+  it("shares a key between points a few meters apart", () => {
+    // Snap the origin to the middle of its grid cell first
+    const latStep = ROUTE_CACHE_CONFIG.GRID_SIZE / METERS_PER_DEGREE;
+    const centered = {
+      ...params,
+      originLat: Math.round(params.originLat / latStep) * latStep,
+    };
+
+    expect(
+      getRouteCacheKey({
+        ...centered,
+        originLat: centered.originLat + 5 / METERS_PER_DEGREE,
+      })
+    ).toBe(getRouteCacheKey(centered));
+  });
+
+  it("separates points further apart than the grid", () => {
+    expect(getRouteCacheKey(movedNorth(100))).not.toBe(
+      getRouteCacheKey(params)
+    );
+  });
+
+  it("includes the travel mode, provider and journey time", () => {
+    const key = getRouteCacheKey(params);
+
+    expect(getRouteCacheKey({ ...params, travelMode: "BICYCLE" })).not.toBe(
+      key
+    );
+    expect(getRouteCacheKey({ ...params, provider: "mapbox" })).not.toBe(key);
+    expect(
+      getRouteCacheKey({ ...params, departureTime: "2026-10-23T18:00:00Z" })
+    ).not.toBe(key);
+    expect(
+      getRouteCacheKey({ ...params, arrivalTime: "2026-10-23T18:00:00Z" })
+    ).not.toBe(key);
+  });
+});
+
+describe("route cache", () => {
+  beforeEach(() => {
+    clearRouteCache();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps routes fresh for their travel mode's TTL", () => {
+    setCachedRoutes("walk", "WALK", routes(1), "google");
+    setCachedRoutes("transit", "TRANSIT", routes(2), "google");
+
+    vi.advanceTimersByTime(ROUTE_CACHE_CONFIG.TTL.TRANSIT - 1);
+    expect(getCachedRoutes("transit")?.routes).toEqual(routes(2));
+
+    vi.advanceTimersByTime(1);
+    expect(getCachedRoutes("transit")).toBeNull();
+    expect(getCachedRoutes("walk")?.routes).toEqual(routes(1));
+
+    vi.advanceTimersByTime(ROUTE_CACHE_CONFIG.TTL.WALK);
+    expect(getCachedRoutes("walk")).toBeNull();
+  });
+
+  it("evicts the least recently used routes at capacity", () => {
+    for (let i = 0; i < ROUTE_CACHE_CONFIG.MAX_ENTRIES; i++) {
+      setCachedRoutes(`route-${i}`, "WALK", routes(i), "google");
+    }
+
+    // Reading the oldest entry saves it, so the next oldest goes instead
+    getCachedRoutes("route-0");
+    setCachedRoutes("extra", "WALK", routes(-1), "google");
+
+    expect(getRouteCacheStats().size).toBe(ROUTE_CACHE_CONFIG.MAX_ENTRIES);
+    expect(getCachedRoutes("route-0")).not.toBeNull();
+    expect(getCachedRoutes("route-1")).toBeNull();
+    expect(getCachedRoutes("extra")).not.toBeNull();
+  });
+
+  it("counts hits and misses", () => {
+    setCachedRoutes("walk", "WALK", routes(1), "mapbox");
+
+    expect(getCachedRoutes("walk")).toEqual({
+      routes: routes(1),
+      provider: "mapbox",
+    });
+    getCachedRoutes("walk");
+    getCachedRoutes("missing");
+
+    expect(getRouteCacheStats()).toEqual({
+      hits: 2,
+      misses: 1,
+      size: 1,
+      hitRate: 2 / 3,
+    });
+  });
+
+  it("resets the counters when cleared", () => {
+    setCachedRoutes("walk", "WALK", routes(1), "google");
+    getCachedRoutes("walk");
+    clearRouteCache();
+
+    expect(getRouteCacheStats()).toEqual({
+      hits: 0,
+      misses: 0,
+      size: 0,
+      hitRate: 0,
+    });
+  });
+});
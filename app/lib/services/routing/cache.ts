@@ -0,0 +1,220 @@
+/**
+ * Route Cache
+ * In-memory server-side cache of routed journeys and route matrices, shared
+ * by every visitor.
+ * Coordinates are rounded to a grid first, so searches between nearby
+ * places reuse each other's routes.
+ *
+ * The cache lives in the server process: it is empty after a restart and
+ * each serverless instance keeps its own.
+ */
+
+import { ROUTE_CACHE_CONFIG } from "@/lib/constants";
+import type {
+  GoogleLatLng,
+  GoogleRouteMatrixElement,
+  GoogleRouteMatrixRequestParams,
+  GoogleRouteTravelMode,
+} from "@/types/routes";
+import type {
+  Route,
+  RouteRequestParams,
+  RoutingProviderName,
+} from "@/types/routing";
+
+const METERS_PER_DEGREE = 111320; // Length of a degree of latitude (meters)
+
+type CachedValue =
+  | { kind: "routes"; routes: Route[]; provider: RoutingProviderName }
+  | { kind: "matrix"; elements: GoogleRouteMatrixElement[] };
+
+interface RouteCacheEntry {
+  value: CachedValue;
+  /** Time the entry goes stale (ms since epoch) */
+  expiresAt: number;
+}
+
+export interface RouteCacheStats {
+  hits: number;
+  misses: number;
+  /** Entries currently cached */
+  size: number;
+  /** Share of lookups answered from the cache (0-1) */
+  hitRate: number;
+}
+
+// Map keeps insertion order, so the first key is the least recently used
+const entries = new Map<string, RouteCacheEntry>();
+let hits = 0;
+let misses = 0;
+
+/**
+ * Round a coordinate to the cache grid
+ * Longitude cells are widened away from the equator so they stay square
+ */
+function quantize(latitude: number, longitude: number): string {
+  const latStep = ROUTE_CACHE_CONFIG.GRID_SIZE / METERS_PER_DEGREE;
+  const latCell = Math.round(latitude / latStep);
+  const lngStep =
+    latStep / Math.max(0.01, Math.cos((latCell * latStep * Math.PI) / 180));
+  const lngCell = Math.round(longitude / lngStep);
+
+  return `${latCell}:${lngCell}`;
+}
+
+/**
+ * Build the cache key for a request
+ * Only fields that can change the answer are included
+ */
+export function getRouteCacheKey(params: RouteRequestParams): string {
+  return JSON.stringify([
+    quantize(params.originLat, params.originLng),
+    quantize(params.destinationLat, params.destinationLng),
+    (params.intermediates ?? []).map(({ latitude, longitude }: GoogleLatLng) =>
+      quantize(latitude, longitude)
+    ),
+    params.travelMode ?? "WALK",
+    params.provider ?? null,
+    params.computeAlternativeRoutes ?? false,
+    params.departureTime ?? null,
+    params.arrivalTime ?? null,
+    params.routingPreference ?? null,
+    params.units ?? null,
+    params.avoidTolls ?? false,
+    params.avoidHighways ?? false,
+    params.avoidFerries ?? false,
+  ]);
+}
+
+/**
+ * Build the cache key for a route matrix request
+ * Origins and destinations keep their order, which the elements refer to
+ */
+export function getRouteMatrixCacheKey(
+  params: GoogleRouteMatrixRequestParams
+): string {
+  const quantizeAll = (latLngs: GoogleLatLng[]) =>
+    latLngs.map(({ latitude, longitude }) => quantize(latitude, longitude));
+
+  return JSON.stringify([
+    "matrix",
+    quantizeAll(params.origins),
+    quantizeAll(params.destinations),
+    params.travelMode ?? "WALK",
+    params.departureTime ?? null,
+    params.arrivalTime ?? null,
+    params.units ?? null,
+  ]);
+}
+
+/**
+ * Look up a fresh value for a key, counting the hit or miss
+ */
+function lookup(key: string): CachedValue | null {
+  const entry = entries.get(key);
+
+  if (!entry || entry.expiresAt <= Date.now()) {
+    if (entry) entries.delete(key);
+    misses++;
+    return null;
+  }
+
+  // Move the entry to the back as the most recently used
+  entries.delete(key);
+  entries.set(key, entry);
+  hits++;
+
+  return entry.value;
+}
+
+/**
+ * Store a value for a key, fresh for the travel mode's TTL
+ */
+function store(
+  key: string,
+  travelMode: GoogleRouteTravelMode,
+  value: CachedValue
+): void {
+  const ttls: Partial<Record<GoogleRouteTravelMode, number>> =
+    ROUTE_CACHE_CONFIG.TTL;
+
+  entries.delete(key);
+  entries.set(key, {
+    value,
+    expiresAt:
+      Date.now() + (ttls[travelMode] ?? ROUTE_CACHE_CONFIG.DEFAULT_TTL),
+  });
+
+  // Evict the least recently used entries beyond the limit
+  while (entries.size > ROUTE_CACHE_CONFIG.MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+/**
+ * Look up fresh routes for a key, counting the hit or miss
+ */
+export function getCachedRoutes(
+  key: string
+): { routes: Route[]; provider: RoutingProviderName } | null {
+  const value = lookup(key);
+  return value?.kind === "routes"
+    ? { routes: value.routes, provider: value.provider }
+    : null;
+}
+
+/**
+ * Store routes for a key, fresh for the travel mode's TTL
+ */
+export function setCachedRoutes(
+  key: string,
+  travelMode: GoogleRouteTravelMode,
+  routes: Route[],
+  provider: RoutingProviderName
+): void {
+  store(key, travelMode, { kind: "routes", routes, provider });
+}
+
+/**
+ * Look up a fresh route matrix for a key, counting the hit or miss
+ */
+export function getCachedRouteMatrix(
+  key: string
+): GoogleRouteMatrixElement[] | null {
+  const value = lookup(key);
+  return value?.kind === "matrix" ? value.elements : null;
+}
+
+/**
+ * Store a route matrix for a key, fresh for the travel mode's TTL
+ */
+export function setCachedRouteMatrix(
+  key: string,
+  travelMode: GoogleRouteTravelMode,
+  elements: GoogleRouteMatrixElement[]
+): void {
+  store(key, travelMode, { kind: "matrix", elements });
+}
+
+/**
+ * Hit and miss counters since the server started
+ */
+export function getRouteCacheStats(): RouteCacheStats {
+  const lookups = hits + misses;
+
+  return {
+    hits,
+    misses,
+    size: entries.size,
+    hitRate: lookups > 0 ? hits / lookups : 0,
+  };
+}
+
+/**
+ * Empty the cache and reset its counters
+ */
+export function clearRouteCache(): void {
+  entries.clear();
+  hits = 0;
+  misses = 0;
+}
@@ -0,0 +1,99 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RouteRequestParams } from "@/types/routing";
+import { computeGoogleRouteMatrix } from "./google";
+import { mapboxRoutingProvider } from "./mapbox";
+
+const params: RouteRequestParams = {
+  originLat: 51.5074,
+  originLng: -0.1276,
+  destinationLat: 51.5155,
+  destinationLng: -0.0922,
+  travelMode: "WALK",
+};
+
+const directions = {
+  code: "Ok",
+  routes: [
+    {
+      distance: 2500,
+      duration: 1800,
+      legs: [
+        {
+          distance: 2500,
+          duration: 1800,
+          steps: [
+            {
+              distance: 2500,
+              duration: 1800,
+              geometry: {
+                type: "LineString",
+                coordinates: [
+                  [-0.1276, 51.5074],
+                  [-0.0922, 51.5155],
+                ],
+              },
+              maneuver: { instruction: "Walk east" },
+              mode: "walking",
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("route fixtures", () => {
+  let dir: string;
+  let fetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "route-fixtures-"));
+    vi.stubEnv("NEXT_PRIVATE_ROUTE_FIXTURES_DIR", dir);
+    fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("replays recorded Mapbox directions without the network", async () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTE_FIXTURES", "record");
+    fetch.mockResolvedValue(Response.json(directions));
+    const recorded = await mapboxRoutingProvider.computeRoutes(params);
+
+    vi.stubEnv("NEXT_PRIVATE_ROUTE_FIXTURES", "replay");
+    fetch.mockClear();
+    const replayed = await mapboxRoutingProvider.computeRoutes(params);
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed[0].duration).toBe(1800);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails Mapbox replays that were never recorded", async () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTE_FIXTURES", "replay");
+
+    await expect(
+      mapboxRoutingProvider.computeRoutes(params)
+    ).rejects.toMatchObject({ code: "FIXTURE_MISSING", statusCode: 404 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails route matrix replays that were never recorded", async () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTE_FIXTURES", "replay");
+
+    await expect(
+      computeGoogleRouteMatrix({
+        origins: [{ latitude: 51.5074, longitude: -0.1276 }],
+        destinations: [{ latitude: 51.5155, longitude: -0.0922 }],
+      })
+    ).rejects.toMatchObject({ code: "FIXTURE_MISSING" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
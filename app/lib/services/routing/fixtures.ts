@@ -0,0 +1,178 @@
+/**
+ * Route Fixtures
+ * Records real routing API responses (Google routes and route matrices, and
+ * Mapbox directions) to disk and replays them, so route rendering and
+ * midpoint bugs can be reproduced against real transit data without
+ * spending quota or needing a network.
+ *
+ * Set NEXT_PRIVATE_ROUTE_FIXTURES=record to save every response, or
+ * NEXT_PRIVATE_ROUTE_FIXTURES=replay to serve them from disk.
+ * Fixtures live in NEXT_PRIVATE_ROUTE_FIXTURES_DIR (fixtures/routes by default).
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { RoutingError } from "./provider";
+
+export type RouteFixtureMode = "record" | "replay";
+
+/**
+ * Upstream APIs whose responses can be recorded
+ */
+export type RouteFixtureApi =
+  "google-routes" | "google-route-matrix" | "mapbox-directions";
+
+/**
+ * A recorded request and the response the API gave to it
+ */
+export interface RouteFixture<T = unknown> {
+  /** Normalised request the fixture is keyed by */
+  request: unknown;
+  response: T;
+  /** When the response was recorded (RFC 3339) */
+  recordedAt: string;
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures/routes";
+
+// Coordinates are rounded to about a metre, so clicking the same spot on the
+// map twice finds the same fixture
+const COORDINATE_DECIMALS = 5;
+
+/**
+ * Fixture mode set by the environment, or null when fixtures are off
+ */
+export function getRouteFixtureMode(): RouteFixtureMode | null {
+  const mode = process.env.NEXT_PRIVATE_ROUTE_FIXTURES;
+  return mode === "record" || mode === "replay" ? mode : null;
+}
+
+function getFixturesDir(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.NEXT_PRIVATE_ROUTE_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR
+  );
+}
+
+/**
+ * Put a request into a canonical form: keys sorted, undefined values
+ * dropped and coordinates rounded
+ */
+function normalizeValue(value: unknown, key?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([entryKey, entry]) => [entryKey, normalizeValue(entry, entryKey)])
+    );
+  }
+
+  if (
+    typeof value === "number" &&
+    (key === "latitude" || key === "longitude")
+  ) {
+    return Number(value.toFixed(COORDINATE_DECIMALS));
+  }
+
+  return value;
+}
+
+/**
+ * Build the fixture key for a request
+ *
+ * @param api - API the request is sent to
+ * @param request - Request body, or the parameters that make up the request
+ * @returns The normalised request and the file name it is stored under
+ */
+export function getRouteFixtureKey(
+  api: RouteFixtureApi,
+  request: { travelMode?: string }
+): {
+  normalized: unknown;
+  fileName: string;
+} {
+  const normalized = normalizeValue({ api, request });
+  const hash = createHash("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex")
+    .slice(0, 16);
+
+  return {
+    normalized,
+    fileName:
+      `${api}-${request.travelMode ?? "WALK"}-${hash}.json`.toLowerCase(),
+  };
+}
+
+/**
+ * Read the recorded response for a request
+ *
+ * @returns The recorded response, or null when the request was never recorded
+ */
+export async function readRouteFixture<T>(
+  api: RouteFixtureApi,
+  request: { travelMode?: string }
+): Promise<T | null> {
+  const { fileName } = getRouteFixtureKey(api, request);
+
+  try {
+    const fixture: RouteFixture<T> = JSON.parse(
+      await readFile(path.join(getFixturesDir(), fileName), "utf8")
+    );
+    return fixture.response;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Replay the recorded response for a request
+ * Replays never touch the network, so an unrecorded request fails
+ *
+ * @throws RoutingError with a FIXTURE_MISSING code when it was never recorded
+ */
+export async function replayRouteFixture<T>(
+  api: RouteFixtureApi,
+  request: { travelMode?: string }
+): Promise<T> {
+  const fixture = await readRouteFixture<T>(api, request);
+
+  if (fixture === null) {
+    throw new RoutingError(
+      "No recorded route for this request - record it first with NEXT_PRIVATE_ROUTE_FIXTURES=record",
+      404,
+      undefined,
+      "FIXTURE_MISSING"
+    );
+  }
+  return fixture;
+}
+
+/**
+ * Save the response to a request, replacing any earlier recording
+ */
+export async function writeRouteFixture<T>(
+  api: RouteFixtureApi,
+  request: { travelMode?: string },
+  response: T
+): Promise<void> {
+  const { normalized, fileName } = getRouteFixtureKey(api, request);
+  const fixture: RouteFixture<T> = {
+    request: normalized,
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  await mkdir(getFixturesDir(), { recursive: true });
+  await writeFile(
+    path.join(getFixturesDir(), fileName),
+    `${JSON.stringify(fixture, null, 2)}\n`
+  );
+}
@@ -0,0 +1,383 @@
+/**
+ * Google Routing Provider
+ * Routes with the Google Routes API and normalises its responses, and times
+ * many journeys at once with its route matrix
+ */
+
+import { decodePolyline } from "@/lib/utils/coordinates";
+import type {
+  GoogleComputeRouteMatrixRequest,
+  GoogleComputeRoutesRequest,
+  GoogleComputeRoutesResponse,
+  GoogleLatLng,
+  GoogleRoute,
+  GoogleRouteLegStep,
+  GoogleRouteMatrixElement,
+  GoogleRouteMatrixRequestParams,
+  GoogleRouteTravelMode,
+} from "@/types/routes";
+import type { Route, RouteStep } from "@/types/routing";
+import {
+  getRouteFixtureMode,
+  replayRouteFixture,
+  writeRouteFixture,
+} from "./fixtures";
+import {
+  RoutingError,
+  toUpstreamError,
+  type RoutingProvider,
+} from "./provider";
+import { fetchUpstream } from "./upstream";
+
+const GOOGLE_ROUTES_API_URL =
+  "https://routes.googleapis.com/directions/v2:computeRoutes";
+
+const GOOGLE_ROUTE_MATRIX_API_URL =
+  "https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix";
+
+// Define field mask for the response
+// We request only the fields the route model is built from
+const FIELD_MASK = [
+  "routes.duration",
+  "routes.distanceMeters",
+  "routes.legs.duration",
+  "routes.legs.distanceMeters",
+  "routes.legs.steps.distanceMeters",
+  "routes.legs.steps.staticDuration",
+  "routes.legs.steps.polyline.encodedPolyline",
+  "routes.legs.steps.navigationInstruction",
+  "routes.legs.steps.travelMode",
+  // Transit-specific fields (populated when travelMode is TRANSIT)
+  "routes.legs.steps.transitDetails",
+].join(",");
+
+const MATRIX_FIELD_MASK = [
+  "originIndex",
+  "destinationIndex",
+  "status",
+  "condition",
+  "distanceMeters",
+  "duration",
+].join(",");
+
+/**
+ * Read the API key, which every live request needs
+ */
+function getApiKey(): string {
+  const apiKey = process.env.NEXT_PRIVATE_GOOGLE_MAPS_API_KEY;
+
+  if (!apiKey) {
+    throw new RoutingError("Google Maps API key is not configured", 500);
+  }
+  return apiKey;
+}
+
+/**
+ * Add the requested departure or arrival time to a request body
+ * Arrival times and past departures are only valid for TRANSIT. Walking
+ * and cycling times don't depend on the time of day, so drop them there.
+ */
+function setJourneyTime(
+  requestBody: { departureTime?: string; arrivalTime?: string },
+  params: { departureTime?: string; arrivalTime?: string },
+  travelMode: GoogleRouteTravelMode
+): void {
+  if (
+    params.departureTime &&
+    (travelMode === "TRANSIT" || Date.parse(params.departureTime) > Date.now())
+  ) {
+    requestBody.departureTime = params.departureTime;
+  }
+  if (params.arrivalTime && travelMode === "TRANSIT") {
+    requestBody.arrivalTime = params.arrivalTime;
+  }
+}
+
+/**
+ * Parse a Google duration string (e.g., "120s") to seconds
+ */
+function parseDurationToSeconds(duration: string | undefined): number {
+  if (!duration) return 0;
+  return parseFloat(duration.replace("s", ""));
+}
+
+/**
+ * Detect transport mode from step data
+ * Google Routes API may include mode info in transitDetails or navigationInstruction
+ */
+function detectTransportMode(
+  step: GoogleRouteLegStep,
+  routeTravelMode: string
+): string {
+  // Transit steps name their vehicle
+  const vehicleType = step.transitDetails?.transitLine?.vehicle?.type;
+  if (vehicleType) {
+    return vehicleType;
+  }
+
+  // Then check explicit travelMode
+  if (step.travelMode) {
+    return step.travelMode;
+  }
+
+  // Single-mode routes (walking, cycling...) use the requested mode throughout
+  if (routeTravelMode !== "TRANSIT") {
+    return routeTravelMode;
+  }
+
+  // Check navigation instruction for hints
+  const instruction =
+    step.navigationInstruction?.instructions?.toLowerCase() || "";
+
+  if (instruction.includes("walk") || instruction.includes("turn")) {
+    return "WALK";
+  }
+  if (instruction.includes("bus")) {
+    return "BUS";
+  }
+  if (
+    instruction.includes("train") ||
+    instruction.includes("rail") ||
+    instruction.includes("tube") ||
+    instruction.includes("underground")
+  ) {
+    return "TRAIN";
+  }
+  if (instruction.includes("subway") || instruction.includes("metro")) {
+    return "SUBWAY";
+  }
+
+  // Default based on maneuver
+  const maneuver = step.navigationInstruction?.maneuver;
+  if (
+    maneuver === "DEPART" ||
+    maneuver === "TURN_LEFT" ||
+    maneuver === "TURN_RIGHT" ||
+    maneuver === "STRAIGHT"
+  ) {
+    return "WALK";
+  }
+
+  return "TRANSIT";
+}
+
+function normalizeStep(
+  step: GoogleRouteLegStep,
+  routeTravelMode: string
+): RouteStep {
+  return {
+    coordinates: step.polyline?.encodedPolyline
+      ? decodePolyline(step.polyline.encodedPolyline)
+      : [],
+    distance: step.distanceMeters ?? 0,
+    duration: parseDurationToSeconds(step.staticDuration),
+    travelMode: detectTransportMode(step, routeTravelMode),
+    instruction: step.navigationInstruction?.instructions,
+  };
+}
+
+function normalizeRoute(route: GoogleRoute, routeTravelMode: string): Route {
+  return {
+    distance: route.distanceMeters ?? 0,
+    duration: parseDurationToSeconds(route.duration),
+    legs: (route.legs ?? []).map((leg) => ({
+      distance: leg.distanceMeters ?? 0,
+      duration: parseDurationToSeconds(leg.duration),
+      steps: (leg.steps ?? []).map((step) =>
+        normalizeStep(step, routeTravelMode)
+      ),
+    })),
+  };
+}
+
+/**
+ * Turn a Google Routes API response into the shared route model
+ *
+ * @param data - Response from computeRoutes
+ * @param routeTravelMode - Travel mode the routes were requested with
+ */
+export function normalizeGoogleRoutes(
+  data: GoogleComputeRoutesResponse,
+  routeTravelMode: string
+): Route[] {
+  return (data.routes ?? []).map((route) =>
+    normalizeRoute(route, routeTravelMode)
+  );
+}
+
+export const googleRoutingProvider: RoutingProvider = {
+  name: "google",
+
+  supportsTravelMode: () => true,
+
+  async computeRoutes(params, signal) {
+    // Build the request body for Google Routes API
+    const travelMode = params.travelMode ?? "WALK";
+    const requestBody: GoogleComputeRoutesRequest = {
+      origin: {
+        location: {
+          latLng: {
+            latitude: params.originLat,
+            longitude: params.originLng,
+          },
+        },
+      },
+      destination: {
+        location: {
+          latLng: {
+            latitude: params.destinationLat,
+            longitude: params.destinationLng,
+          },
+        },
+      },
+      travelMode,
+      // Alternative routes are not available through intermediate stops
+      computeAlternativeRoutes:
+        !params.intermediates?.length &&
+        (params.computeAlternativeRoutes ?? false),
+      units: params.units ?? "METRIC",
+      languageCode: "en-GB",
+    };
+
+    if (params.intermediates?.length) {
+      requestBody.intermediates = params.intermediates.map((latLng) => ({
+        location: { latLng },
+      }));
+    }
+
+    setJourneyTime(requestBody, params, travelMode);
+
+    // routingPreference is only valid for DRIVE and TWO_WHEELER modes
+    // It must NOT be set for TRANSIT, WALK, or BICYCLE
+    if (
+      params.routingPreference &&
+      (travelMode === "DRIVE" || travelMode === "TWO_WHEELER")
+    ) {
+      requestBody.routingPreference = params.routingPreference;
+    }
+
+    // Add route modifiers if specified
+    if (params.avoidTolls || params.avoidHighways || params.avoidFerries) {
+      requestBody.routeModifiers = {
+        avoidTolls: params.avoidTolls ?? false,
+        avoidHighways: params.avoidHighways ?? false,
+        avoidFerries: params.avoidFerries ?? false,
+      };
+    }
+
+    const fixtureMode = getRouteFixtureMode();
+
+    if (fixtureMode === "replay") {
+      return normalizeGoogleRoutes(
+        await replayRouteFixture<GoogleComputeRoutesResponse>(
+          "google-routes",
+          requestBody
+        ),
+        travelMode
+      );
+    }
+
+    const response = await fetchUpstream(
+      GOOGLE_ROUTES_API_URL,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Goog-Api-Key": getApiKey(),
+          "X-Goog-FieldMask": FIELD_MASK,
+        },
+        body: JSON.stringify(requestBody),
+      },
+      signal
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("Google Routes API error:", errorData);
+      throw toUpstreamError(
+        `Google Routes API error: ${response.status} ${response.statusText}`,
+        response.status,
+        errorData
+      );
+    }
+
+    const data: GoogleComputeRoutesResponse = await response.json();
+
+    if (fixtureMode === "record") {
+      await writeRouteFixture("google-routes", requestBody, data);
+    }
+
+    return normalizeGoogleRoutes(data, travelMode);
+  },
+};
+
+const toWaypoint = (latLng: GoogleLatLng) => ({
+  waypoint: {
+    location: {
+      latLng: {
+        latitude: latLng.latitude,
+        longitude: latLng.longitude,
+      },
+    },
+  },
+});
+
+/**
+ * Time every origin to every destination with the Google Route Matrix API
+ *
+ * @param signal - Cancels the request, e.g. when the client goes away
+ * @returns One element per origin and destination pair, in no set order
+ */
+export async function computeGoogleRouteMatrix(
+  params: GoogleRouteMatrixRequestParams,
+  signal?: AbortSignal
+): Promise<GoogleRouteMatrixElement[]> {
+  const travelMode = params.travelMode ?? "WALK";
+  const requestBody: GoogleComputeRouteMatrixRequest = {
+    origins: params.origins.map(toWaypoint),
+    destinations: params.destinations.map(toWaypoint),
+    travelMode,
+    units: params.units ?? "METRIC",
+    languageCode: "en-GB",
+  };
+
+  setJourneyTime(requestBody, params, travelMode);
+
+  const fixtureMode = getRouteFixtureMode();
+
+  if (fixtureMode === "replay") {
+    return replayRouteFixture("google-route-matrix", requestBody);
+  }
+
+  const response = await fetchUpstream(
+    GOOGLE_ROUTE_MATRIX_API_URL,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": getApiKey(),
+        "X-Goog-FieldMask": MATRIX_FIELD_MASK,
+      },
+      body: JSON.stringify(requestBody),
+    },
+    signal
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("Google Route Matrix API error:", errorData);
+    throw toUpstreamError(
+      `Google Route Matrix API error: ${response.status} ${response.statusText}`,
+      response.status,
+      errorData
+    );
+  }
+
+  const data: GoogleRouteMatrixElement[] = await response.json();
+
+  if (fixtureMode === "record") {
+    await writeRouteFixture("google-route-matrix", requestBody, data);
+  }
+
+  return data;
+}
@@ -0,0 +1,142 @@
+/**
+ * Routing Service
+ * Picks a routing provider for each request and falls back to another one
+ * when the first has run out of quota
+ *
+ * This service provides pure data-fetching functions for the API routes.
+ */
+
+import type { GoogleRouteTravelMode } from "@/types/routes";
+import type {
+  Route,
+  RouteRequestParams,
+  RoutingProviderName,
+} from "@/types/routing";
+import { googleRoutingProvider } from "./google";
+import { localRoutingProvider } from "./local";
+import { mapboxRoutingProvider } from "./mapbox";
+import {
+  ROUTING_PROVIDER_NAMES,
+  RoutingError,
+  isLocalRoutingEnabled,
+  type RoutingProvider,
+} from "./provider";
+
+export {
+  RoutingError,
+  isLocalRoutingEnabled,
+  toUpstreamError,
+  type RoutingProvider,
+} from "./provider";
+export { computeGoogleRouteMatrix } from "./google";
+export { computeLocalRouteMatrix } from "./local";
+export { getRouteFixtureMode } from "./fixtures";
+export { fetchUpstream } from "./upstream";
+export {
+  clearRouteCache,
+  getCachedRouteMatrix,
+  getCachedRoutes,
+  getRouteCacheKey,
+  getRouteMatrixCacheKey,
+  getRouteCacheStats,
+  setCachedRouteMatrix,
+  setCachedRoutes,
+  type RouteCacheStats,
+} from "./cache";
+export { validateRouteMatrixRequest, validateRouteRequest } from "./validation";
+export {
+  checkRateLimit,
+  consumeRouteBudget,
+  getClientId,
+  RouteBudgetError,
+  type RouteBudgetExhausted,
+} from "./limits";
+
+export const ROUTING_PROVIDERS: Record<RoutingProviderName, RoutingProvider> = {
+  google: googleRoutingProvider,
+  mapbox: mapboxRoutingProvider,
+  local: localRoutingProvider,
+};
+
+/** Default provider when a request doesn't choose one */
+export const DEFAULT_ROUTING_PROVIDER: RoutingProviderName = "google";
+
+/**
+ * Check whether a value names a routing provider
+ */
+export function isRoutingProviderName(
+  value: unknown
+): value is RoutingProviderName {
+  return ROUTING_PROVIDER_NAMES.some((name) => name === value);
+}
+
+/**
+ * Providers to try for a request in order: the chosen one first, then every
+ * other real provider that can route the travel mode. Synthetic routes are
+ * never a silent fallback.
+ */
+function getProviderOrder(
+  preferred: RoutingProviderName,
+  travelMode: GoogleRouteTravelMode
+): RoutingProvider[] {
+  if (isLocalRoutingEnabled()) {
+    return [localRoutingProvider];
+  }
+
+  // Synthetic routes are only for development, whatever the client asks for
+  const first = preferred === "local" ? DEFAULT_ROUTING_PROVIDER : preferred;
+  const others = Object.values(ROUTING_PROVIDERS).filter(
+    ({ name }) => name !== first && name !== "local"
+  );
+
+  return [ROUTING_PROVIDERS[first], ...others].filter((provider) =>
+    provider.supportsTravelMode(travelMode)
+  );
+}
+
+/**
+ * Route a request with its chosen provider, falling back to the others
+ * when a provider is rate limited or out of quota
+ *
+ * @param signal - Cancels the request, e.g. when the client goes away
+ * @returns The routes, preferred route first, and the provider that found them
+ */
+export async function computeRoutes(
+  params: RouteRequestParams,
+  signal?: AbortSignal
+): Promise<{ routes: Route[]; provider: RoutingProviderName }> {
+  const travelMode = params.travelMode ?? "WALK";
+  const providers = getProviderOrder(
+    params.provider ?? DEFAULT_ROUTING_PROVIDER,
+    travelMode
+  );
+
+  if (providers.length === 0) {
+    throw new RoutingError(
+      `No routing provider supports ${travelMode}`,
+      400,
+      undefined,
+      "INVALID_REQUEST"
+    );
+  }
+
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    try {
+      return {
+        routes: await provider.computeRoutes(params, signal),
+        provider: provider.name,
+      };
+    } catch (error) {
+      if (!(error instanceof RoutingError) || error.code !== "UPSTREAM_QUOTA") {
+        throw error;
+      }
+
+      console.warn(`Routing provider ${provider.name} is out of quota`);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getClientId, RouteBudgetError } from "./limits";
+import { fetchUpstream } from "./upstream";
+
+describe("getClientId", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignores forwarding headers unless a proxy is trusted", () => {
+    vi.stubEnv("NEXT_PRIVATE_TRUST_PROXY", "");
+    const spoofed = (ip: string) =>
+      getClientId(
+        new Headers({
+          "x-forwarded-for": ip,
+          "x-real-ip": ip,
+          "x-vercel-forwarded-for": ip,
+        })
+      );
+
+    expect(spoofed("6.6.6.6")).toBe(spoofed("7.7.7.7"));
+    expect(spoofed("6.6.6.6")).toBe(getClientId(new Headers()));
+  });
+
+  it("trusts the address the platform reports", () => {
+    vi.stubEnv("NEXT_PRIVATE_TRUST_PROXY", "true");
+    const headers = new Headers({
+      "x-forwarded-for": "6.6.6.6, 1.2.3.4",
+      "x-real-ip": "1.2.3.4",
+    });
+
+    expect(getClientId(headers)).toBe("1.2.3.4");
+  });
+
+  it("uses the last forwarded hop, which the client can't set", () => {
+    vi.stubEnv("NEXT_PRIVATE_TRUST_PROXY", "true");
+    const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" });
+
+    expect(getClientId(headers)).toBe("1.2.3.4");
+  });
+
+  it("shares one limit when the proxy sends no address", () => {
+    vi.stubEnv("NEXT_PRIVATE_TRUST_PROXY", "true");
+
+    expect(getClientId(new Headers())).toBe("shared");
+  });
+});
+
+describe("routing budget", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("spends a call on every upstream attempt, retries included", async () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTES_DAILY_BUDGET", "2");
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 503 }));
+    vi.stubGlobal("fetch", fetch);
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    const result = expect(
+      fetchUpstream("https://routes.example.com", {})
+    ).rejects.toBeInstanceOf(RouteBudgetError);
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Routes API Limits
+ * Per-client rate limiting and a daily/monthly budget of upstream routing
+ * calls, so an open /api/routes can't run up the Google bill.
+ *
+ * Counters live in the server process: they reset on restart and each
+ * serverless instance keeps its own, so the budget is a safety net rather
+ * than an exact meter.
+ */
+
+import { ROUTE_LIMITS_CONFIG } from "@/lib/constants";
+import { RoutingError } from "./provider";
+
+interface RateLimitWindow {
+  count: number;
+  /** Time the window ends (ms since epoch) */
+  resetAt: number;
+}
+
+interface BudgetPeriod {
+  /** Period the count belongs to (e.g. 2024-05-01 or 2024-05) */
+  period: string;
+  count: number;
+}
+
+export interface RouteBudgetExhausted {
+  budget: "daily" | "monthly";
+  /** Seconds until the budget resets */
+  retryAfter: number;
+}
+
+/**
+ * Error for an upstream call the routing budget has no room left for
+ */
+export class RouteBudgetError extends RoutingError {
+  constructor(public exhausted: RouteBudgetExhausted) {
+    super(
+      `The ${exhausted.budget} routing budget has been used up`,
+      429,
+      undefined,
+      "BUDGET_EXHAUSTED"
+    );
+    this.name = "RouteBudgetError";
+  }
+}
+
+// Rate limit windows by client, oldest first
+const windows = new Map<string, RateLimitWindow>();
+const daily: BudgetPeriod = { period: "", count: 0 };
+const monthly: BudgetPeriod = { period: "", count: 0 };
+
+/**
+ * Read a budget from the environment, falling back to the default
+ * @returns The budget, or null when it is turned off
+ */
+function getBudget(name: string, fallback: number): number | null {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+const getDailyBudget = () =>
+  getBudget(
+    "NEXT_PRIVATE_ROUTES_DAILY_BUDGET",
+    ROUTE_LIMITS_CONFIG.DAILY_BUDGET
+  );
+
+const getMonthlyBudget = () =>
+  getBudget(
+    "NEXT_PRIVATE_ROUTES_MONTHLY_BUDGET",
+    ROUTE_LIMITS_CONFIG.MONTHLY_BUDGET
+  );
+
+/**
+ * Start the counter again when its period has moved on
+ */
+function rollOver(budget: BudgetPeriod, period: string): void {
+  if (budget.period !== period) {
+    budget.period = period;
+    budget.count = 0;
+  }
+}
+
+const secondsUntil = (time: number) =>
+  Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// Client id for every request when client addresses can't be trusted
+const SHARED_CLIENT_ID = "shared";
+
+/**
+ * Identify the client behind a request by its IP address
+ * Forwarding headers are only read behind a proxy that sets them, turned on
+ * with NEXT_PRIVATE_TRUST_PROXY=true. Anywhere else a client could forge
+ * them for a fresh rate limit, so every request shares one limit instead.
+ * Behind the proxy, only addresses it sets are trusted: its own headers, or
+ * the last X-Forwarded-For hop, which it appended.
+ */
+export function getClientId(headers: Headers): string {
+  if (process.env.NEXT_PRIVATE_TRUST_PROXY !== "true") {
+    return SHARED_CLIENT_ID;
+  }
+
+  const platformIp =
+    headers.get("x-vercel-forwarded-for") ?? headers.get("x-real-ip");
+  if (platformIp) return platformIp.split(",")[0].trim();
+
+  return (
+    headers.get("x-forwarded-for")?.split(",").pop()?.trim() || SHARED_CLIENT_ID
+  );
+}
+
+/**
+ * Count a request against the client's rate limit
+ *
+ * @returns Seconds until the client may try again, or null when allowed
+ */
+export function checkRateLimit(clientId: string): number | null {
+  const now = Date.now();
+
+  // Drop finished windows so the map doesn't grow with every visitor
+  windows.forEach(({ resetAt }, id) => {
+    if (resetAt <= now) windows.delete(id);
+  });
+
+  // Forget the oldest clients rather than grow without bound under a flood
+  if (!windows.has(clientId)) {
+    for (const id of windows.keys()) {
+      if (windows.size < ROUTE_LIMITS_CONFIG.MAX_TRACKED_CLIENTS) break;
+      windows.delete(id);
+    }
+  }
+
+  const current = windows.get(clientId) ?? {
+    count: 0,
+    resetAt: now + ROUTE_LIMITS_CONFIG.RATE_LIMIT_WINDOW,
+  };
+  current.count++;
+  windows.set(clientId, current);
+
+  return current.count > ROUTE_LIMITS_CONFIG.RATE_LIMIT_MAX_REQUESTS
+    ? secondsUntil(current.resetAt)
+    : null;
+}
+
+/**
+ * Spend one upstream routing call from the daily and monthly budgets
+ *
+ * @returns The exhausted budget and seconds until it resets, or null when spent
+ */
+export function consumeRouteBudget(): RouteBudgetExhausted | null {
+  const now = new Date();
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const date = now.getUTCDate();
+
+  rollOver(daily, now.toISOString().slice(0, 10));
+  rollOver(monthly, now.toISOString().slice(0, 7));
+
+  const monthlyBudget = getMonthlyBudget();
+  if (monthlyBudget !== null && monthly.count >= monthlyBudget) {
+    return {
+      budget: "monthly",
+      retryAfter: secondsUntil(Date.UTC(year, month + 1, 1)),
+    };
+  }
+
+  const dailyBudget = getDailyBudget();
+  if (dailyBudget !== null && daily.count >= dailyBudget) {
+    return {
+      budget: "daily",
+      retryAfter: secondsUntil(Date.UTC(year, month, date + 1)),
+    };
+  }
+
+  daily.count++;
+  monthly.count++;
+  return null;
+}
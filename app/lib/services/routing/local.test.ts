@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  getGroupMidpointByDuration,
+  haversineDistance,
+} from "@/lib/utils/coordinates";
+import type { RouteStep } from "@/types/routing";
+import { localRoutingProvider } from "./local";
+
+const METERS_PER_DEGREE = 111320;
+const HUB: [number, number] = [-0.1276, 51.5074];
+
+/** A point on the hub's parallel, meters east of it */
+const east = (meters: number): [number, number] => [
+  HUB[0] + meters / (METERS_PER_DEGREE * Math.cos((HUB[1] * Math.PI) / 180)),
+  HUB[1],
+];
+
+/** Walk from a point to the hub with the local provider */
+async function walkToHub(from: [number, number]): Promise<RouteStep[]> {
+  const [route] = await localRoutingProvider.computeRoutes({
+    originLng: from[0],
+    originLat: from[1],
+    destinationLng: HUB[0],
+    destinationLat: HUB[1],
+    travelMode: "WALK",
+  });
+  return route.legs.flatMap(({ steps }) => steps);
+}
+
+describe("local routing provider", () => {
+  it("returns the same route every time", async () => {
+    const from = east(-1500);
+
+    expect(await walkToHub(from)).toEqual(await walkToHub(from));
+  });
+
+  it("splits the A -> hub -> B journey in half by time", async () => {
+    // A is 2 km west of the hub and B 1 km east, so they meet 500 m west of it
+    const routes = await Promise.all([
+      walkToHub(east(-2000)),
+      walkToHub(east(1000)),
+    ]);
+    const midpoint = getGroupMidpointByDuration(routes);
+
+    expect(midpoint).not.toBeNull();
+    expect(haversineDistance(midpoint!, east(-500))).toBeLessThan(20);
+  });
+
+  it("moves the midpoint towards whoever travels less", async () => {
+    // A travels twice as far as B, so they meet at the hub
+    const routes = await Promise.all([
+      walkToHub(east(-2000)),
+      walkToHub(east(1000)),
+    ]);
+    const midpoint = getGroupMidpointByDuration(routes, [2, 1]);
+
+    expect(haversineDistance(midpoint!, HUB)).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Local Routing Provider
+ * Synthesises routes from straight lines at assumed speeds, so the whole
+ * midpoint flow runs offline and gives the same answer every time.
+ *
+ * Routes are built in the Google response shape (encoded polylines and
+ * staticDuration strings) and go through the same normaliser as real
+ * Google responses.
+ */
+
+import { LOCAL_ROUTING_CONFIG } from "@/lib/constants";
+import { encodePolyline, haversineDistance } from "@/lib/utils/coordinates";
+import type {
+  GoogleComputeRoutesResponse,
+  GoogleLatLng,
+  GoogleRoute,
+  GoogleRouteLeg,
+  GoogleRouteLegStep,
+  GoogleRouteMatrixElement,
+  GoogleRouteMatrixRequestParams,
+  GoogleRouteTravelMode,
+} from "@/types/routes";
+import { normalizeGoogleRoutes } from "./google";
+import type { RoutingProvider } from "./provider";
+
+const SPEEDS: Partial<Record<GoogleRouteTravelMode, number>> =
+  LOCAL_ROUTING_CONFIG.SPEEDS;
+
+const toLngLat = ({ latitude, longitude }: GoogleLatLng): [number, number] => [
+  longitude,
+  latitude,
+];
+
+/**
+ * Length of a path in meters
+ */
+function getPathLength(path: [number, number][]): number {
+  return path
+    .slice(1)
+    .reduce((sum, point, i) => sum + haversineDistance(path[i], point), 0);
+}
+
+/**
+ * Cut the part of a path between two fractions of its length
+ */
+function slicePath(
+  path: [number, number][],
+  start: number,
+  end: number
+): [number, number][] {
+  const totalLength = getPathLength(path);
+  const startDistance = totalLength * start;
+  const endDistance = totalLength * end;
+  const sliced: [number, number][] = [];
+  let distanceBefore = 0;
+
+  const interpolate = (
+    from: [number, number],
+    to: [number, number],
+    ratio: number
+  ): [number, number] => [
+    from[0] + (to[0] - from[0]) * ratio,
+    from[1] + (to[1] - from[1]) * ratio,
+  ];
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const segmentLength = haversineDistance(path[i], path[i + 1]);
+    const distanceAfter = distanceBefore + segmentLength;
+    const ratioAt = (distance: number) =>
+      segmentLength > 0 ? (distance - distanceBefore) / segmentLength : 0;
+
+    if (sliced.length === 0 && distanceAfter >= startDistance) {
+      sliced.push(interpolate(path[i], path[i + 1], ratioAt(startDistance)));
+    }
+    if (distanceAfter >= endDistance) {
+      sliced.push(interpolate(path[i], path[i + 1], ratioAt(endDistance)));
+      return sliced;
+    }
+    if (sliced.length > 0) {
+      sliced.push(path[i + 1]);
+    }
+
+    distanceBefore = distanceAfter;
+  }
+
+  return sliced.length > 0 ? sliced : [path[path.length - 1]];
+}
+
+/**
+ * Bow a straight line out to one side through its middle, for alternatives
+ */
+function bowPath(
+  from: [number, number],
+  to: [number, number],
+  offset: number
+): [number, number][] {
+  const lngScale = Math.cos((((from[1] + to[1]) / 2) * Math.PI) / 180);
+  const dx = (to[0] - from[0]) * lngScale;
+  const dy = to[1] - from[1];
+  const middle: [number, number] = [
+    (from[0] + to[0]) / 2 - (dy * offset) / lngScale,
+    (from[1] + to[1]) / 2 + dx * offset,
+  ];
+
+  return [from, middle, to];
+}
+
+/**
+ * Split a path into steps no longer than the maximum step length
+ */
+function buildSteps(
+  path: [number, number][],
+  travelMode: GoogleRouteTravelMode,
+  instruction: string
+): GoogleRouteLegStep[] {
+  const distance = getPathLength(path) * LOCAL_ROUTING_CONFIG.DETOUR_FACTOR;
+  const count = Math.max(
+    1,
+    Math.ceil(distance / LOCAL_ROUTING_CONFIG.MAX_STEP_LENGTH)
+  );
+  const speed = SPEEDS[travelMode] ?? LOCAL_ROUTING_CONFIG.SPEEDS.WALK;
+
+  return Array.from({ length: count }, (_, i) => ({
+    distanceMeters: Math.round(distance / count),
+    staticDuration: `${Math.round(distance / count / speed)}s`,
+    polyline: {
+      encodedPolyline: encodePolyline(
+        slicePath(path, i / count, (i + 1) / count)
+      ),
+    },
+    navigationInstruction: {
+      maneuver: i === 0 ? "DEPART" : "STRAIGHT",
+      instructions: i === 0 ? instruction : "Continue straight",
+    },
+    travelMode,
+  }));
+}
+
+/**
+ * Build a transit leg: walk to a stop, ride, then walk from the stop
+ * Short journeys are walked all the way, as they would be for real
+ */
+function buildTransitSteps(path: [number, number][]): GoogleRouteLegStep[] {
+  const distance = getPathLength(path) * LOCAL_ROUTING_CONFIG.DETOUR_FACTOR;
+
+  if (distance < LOCAL_ROUTING_CONFIG.MIN_TRANSIT_DISTANCE) {
+    return buildSteps(path, "WALK", "Walk to the destination");
+  }
+
+  const walkShare = LOCAL_ROUTING_CONFIG.TRANSIT_WALK_SHARE;
+  const ride = slicePath(path, walkShare, 1 - walkShare);
+  const rideDistance = distance * (1 - 2 * walkShare);
+
+  return [
+    ...buildSteps(slicePath(path, 0, walkShare), "WALK", "Walk to the stop"),
+    {
+      distanceMeters: Math.round(rideDistance),
+      staticDuration: `${Math.round(
+        LOCAL_ROUTING_CONFIG.TRANSIT_WAIT +
+          rideDistance / LOCAL_ROUTING_CONFIG.SPEEDS.TRANSIT
+      )}s`,
+      polyline: { encodedPolyline: encodePolyline(ride) },
+      navigationInstruction: {
+        maneuver: "STRAIGHT",
+        instructions: "Take the local line",
+      },
+      travelMode: "TRANSIT",
+      transitDetails: {
+        headsign: "Destination",
+        transitLine: {
+          name: "Local line",
+          vehicle: { type: "SUBWAY" },
+        },
+      },
+    },
+    ...buildSteps(
+      slicePath(path, 1 - walkShare, 1),
+      "WALK",
+      "Walk to the destination"
+    ),
+  ];
+}
+
+function buildLeg(
+  path: [number, number][],
+  travelMode: GoogleRouteTravelMode
+): GoogleRouteLeg {
+  const steps =
+    travelMode === "TRANSIT"
+      ? buildTransitSteps(path)
+      : buildSteps(path, travelMode, "Head towards the destination");
+  const duration = steps.reduce(
+    (sum, step) => sum + parseFloat(step.staticDuration ?? "0"),
+    0
+  );
+
+  return {
+    distanceMeters: steps.reduce(
+      (sum, step) => sum + (step.distanceMeters ?? 0),
+      0
+    ),
+    duration: `${duration}s`,
+    steps,
+  };
+}
+
+/**
+ * Build a route through the waypoints, bowing every leg out by the offset
+ */
+function buildRoute(
+  waypoints: [number, number][],
+  travelMode: GoogleRouteTravelMode,
+  offset: number = 0
+): GoogleRoute {
+  const legs = waypoints
+    .slice(1)
+    .map((to, i) =>
+      buildLeg(
+        offset === 0 ? [waypoints[i], to] : bowPath(waypoints[i], to, offset),
+        travelMode
+      )
+    );
+  const duration = legs.reduce(
+    (sum, leg) => sum + parseFloat(leg.duration ?? "0"),
+    0
+  );
+
+  return {
+    legs,
+    distanceMeters: legs.reduce(
+      (sum, leg) => sum + (leg.distanceMeters ?? 0),
+      0
+    ),
+    duration: `${duration}s`,
+  };
+}
+
+export const localRoutingProvider: RoutingProvider = {
+  name: "local",
+
+  supportsTravelMode: (travelMode) => travelMode !== "TRAVEL_MODE_UNSPECIFIED",
+
+  async computeRoutes(params) {
+    const travelMode = params.travelMode ?? "WALK";
+    const waypoints: [number, number][] = [
+      [params.originLng, params.originLat],
+      ...(params.intermediates ?? []).map(toLngLat),
+      [params.destinationLng, params.destinationLat],
+    ];
+
+    const routes = [buildRoute(waypoints, travelMode)];
+
+    // One alternative that bows out to the side, like a parallel street
+    if (params.computeAlternativeRoutes && waypoints.length === 2) {
+      routes.push(
+        buildRoute(
+          waypoints,
+          travelMode,
+          LOCAL_ROUTING_CONFIG.ALTERNATIVE_OFFSET
+        )
+      );
+    }
+
+    const data: GoogleComputeRoutesResponse = { routes };
+    return normalizeGoogleRoutes(data, travelMode);
+  },
+};
+
+/**
+ * Time every origin to every destination along synthetic routes
+ *
+ * @returns Route matrix elements in the Google response shape
+ */
+export function computeLocalRouteMatrix(
+  params: GoogleRouteMatrixRequestParams
+): GoogleRouteMatrixElement[] {
+  const travelMode = params.travelMode ?? "WALK";
+
+  return params.origins.flatMap((origin, originIndex) =>
+    params.destinations.map((destination, destinationIndex) => {
+      const route = buildRoute(
+        [toLngLat(origin), toLngLat(destination)],
+        travelMode
+      );
+
+      return {
+        originIndex,
+        destinationIndex,
+        condition: "ROUTE_EXISTS",
+        distanceMeters: route.distanceMeters,
+        duration: route.duration,
+      };
+    })
+  );
+}
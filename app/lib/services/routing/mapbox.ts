@@ -0,0 +1,195 @@
+/**
+ * Mapbox Routing Provider
+ * Routes with the Mapbox Directions API and normalises its responses
+ * @see https://docs.mapbox.com/api/navigation/directions/
+ */
+
+import { MAPBOX_CONFIG } from "@/lib/constants";
+import type { GoogleRouteTravelMode } from "@/types/routes";
+import type { Route } from "@/types/routing";
+import {
+  getRouteFixtureMode,
+  replayRouteFixture,
+  writeRouteFixture,
+} from "./fixtures";
+import {
+  RoutingError,
+  toUpstreamError,
+  type RoutingProvider,
+} from "./provider";
+import { fetchUpstream } from "./upstream";
+
+interface MapboxDirectionsStep {
+  distance: number;
+  duration: number;
+  geometry: GeoJSON.LineString;
+  maneuver: { instruction?: string };
+  mode: string;
+}
+
+interface MapboxDirectionsRoute {
+  distance: number;
+  duration: number;
+  legs: {
+    distance: number;
+    duration: number;
+    steps: MapboxDirectionsStep[];
+  }[];
+}
+
+interface MapboxDirectionsResponse {
+  code: string;
+  message?: string;
+  routes?: MapboxDirectionsRoute[];
+}
+
+/**
+ * Mapbox profile for each travel mode it can route
+ */
+const DIRECTIONS_PROFILES: Partial<Record<GoogleRouteTravelMode, string>> = {
+  WALK: MAPBOX_CONFIG.DIRECTIONS_PROFILES.WALKING,
+  BICYCLE: MAPBOX_CONFIG.DIRECTIONS_PROFILES.CYCLING,
+  DRIVE: MAPBOX_CONFIG.DIRECTIONS_PROFILES.DRIVING,
+};
+
+/**
+ * Travel mode of a step, in the same terms as Google's
+ */
+const STEP_TRAVEL_MODES: Record<string, string> = {
+  walking: "WALK",
+  "pushing bike": "WALK",
+  cycling: "BICYCLE",
+  driving: "DRIVE",
+  ferry: "FERRY",
+};
+
+/**
+ * Mapbox only takes times to the minute (YYYY-MM-DDThh:mmZ)
+ */
+function toMapboxTime(time: string): string {
+  return `${new Date(time).toISOString().slice(0, 16)}Z`;
+}
+
+function normalizeRoute(route: MapboxDirectionsRoute): Route {
+  return {
+    distance: route.distance,
+    duration: route.duration,
+    legs: route.legs.map((leg) => ({
+      distance: leg.distance,
+      duration: leg.duration,
+      steps: leg.steps.map((step) => ({
+        coordinates: step.geometry.coordinates as [number, number][],
+        distance: step.distance,
+        duration: step.duration,
+        travelMode: STEP_TRAVEL_MODES[step.mode] ?? "DEFAULT",
+        instruction: step.maneuver.instruction,
+      })),
+    })),
+  };
+}
+
+/**
+ * Turn a Mapbox Directions response into the shared route model
+ */
+function normalizeMapboxRoutes(data: MapboxDirectionsResponse): Route[] {
+  // No route between the waypoints is an answer, not a failure
+  if (data.code === "NoRoute") return [];
+
+  return (data.routes ?? []).map(normalizeRoute);
+}
+
+export const mapboxRoutingProvider: RoutingProvider = {
+  name: "mapbox",
+
+  // Mapbox has no public transport routing
+  supportsTravelMode: (travelMode) => travelMode in DIRECTIONS_PROFILES,
+
+  async computeRoutes(params, signal) {
+    const travelMode = params.travelMode ?? "WALK";
+    const profile = DIRECTIONS_PROFILES[travelMode];
+
+    if (!profile) {
+      throw new RoutingError(
+        `Mapbox cannot route ${travelMode}`,
+        400,
+        undefined,
+        "INVALID_REQUEST"
+      );
+    }
+
+    const waypoints: [number, number][] = [
+      [params.originLng, params.originLat],
+      ...(params.intermediates ?? []).map(
+        ({ latitude, longitude }): [number, number] => [longitude, latitude]
+      ),
+      [params.destinationLng, params.destinationLat],
+    ];
+
+    const url = new URL(
+      `${MAPBOX_CONFIG.DIRECTIONS_API_URL}/${profile}/${waypoints
+        .map(([lng, lat]) => `${lng},${lat}`)
+        .join(";")}`
+    );
+    url.searchParams.set("geometries", "geojson");
+    url.searchParams.set("steps", "true");
+    url.searchParams.set("overview", "false");
+    url.searchParams.set("language", "en");
+    // Alternatives are only available between two waypoints
+    url.searchParams.set(
+      "alternatives",
+      String(waypoints.length === 2 && !!params.computeAlternativeRoutes)
+    );
+
+    // Journey times only affect driving, where traffic is predicted
+    if (travelMode === "DRIVE" && params.departureTime) {
+      url.searchParams.set("depart_at", toMapboxTime(params.departureTime));
+    } else if (travelMode === "DRIVE" && params.arrivalTime) {
+      url.searchParams.set("arrive_by", toMapboxTime(params.arrivalTime));
+    }
+
+    // Fixtures are keyed by what was asked for, never by the access token
+    const fixtureRequest = {
+      travelMode,
+      waypoints: waypoints.map(([longitude, latitude]) => ({
+        longitude,
+        latitude,
+      })),
+      query: Object.fromEntries(url.searchParams),
+    };
+    const fixtureMode = getRouteFixtureMode();
+
+    if (fixtureMode === "replay") {
+      return normalizeMapboxRoutes(
+        await replayRouteFixture<MapboxDirectionsResponse>(
+          "mapbox-directions",
+          fixtureRequest
+        )
+      );
+    }
+
+    url.searchParams.set(
+      "access_token",
+      process.env.NEXT_PUBLIC_MAPBOX_TOKEN ?? ""
+    );
+
+    const response = await fetchUpstream(url.toString(), {}, signal);
+    const data: MapboxDirectionsResponse = await response
+      .json()
+      .catch(() => ({ code: "InvalidResponse" }));
+
+    if (!response.ok) {
+      console.error("Mapbox Directions API error:", data);
+      throw toUpstreamError(
+        `Mapbox Directions API error: ${response.status} ${data.message ?? response.statusText}`,
+        response.status,
+        data
+      );
+    }
+
+    if (fixtureMode === "record") {
+      await writeRouteFixture("mapbox-directions", fixtureRequest, data);
+    }
+
+    return normalizeMapboxRoutes(data);
+  },
+};
@@ -0,0 +1,82 @@
+/**
+ * Routing Provider
+ * Interface every routing backend implements, and the error they throw
+ */
+
+import type { GoogleRouteTravelMode } from "@/types/routes";
+import type {
+  Route,
+  RouteErrorCode,
+  RouteRequestParams,
+  RoutingProviderName,
+} from "@/types/routing";
+
+/**
+ * A routing backend that answers route requests with the shared route model
+ */
+export interface RoutingProvider {
+  name: RoutingProviderName;
+
+  /** Whether the backend can route journeys in this travel mode */
+  supportsTravelMode: (travelMode: GoogleRouteTravelMode) => boolean;
+
+  /**
+   * Route a request, preferred route first (empty when there is no route)
+   * Aborting the signal cancels any upstream call
+   */
+  computeRoutes: (
+    params: RouteRequestParams,
+    signal?: AbortSignal
+  ) => Promise<Route[]>;
+}
+
+/**
+ * Every routing provider name, for validating requests
+ */
+export const ROUTING_PROVIDER_NAMES = [
+  "google",
+  "mapbox",
+  "local",
+] as const satisfies readonly RoutingProviderName[];
+
+/**
+ * Whether every route is synthesised locally, with no network calls
+ * Set NEXT_PRIVATE_ROUTING_PROVIDER=local for development and tests
+ */
+export function isLocalRoutingEnabled(): boolean {
+  return process.env.NEXT_PRIVATE_ROUTING_PROVIDER === "local";
+}
+
+/**
+ * Error class for routing provider errors
+ */
+export class RoutingError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown,
+    public code: RouteErrorCode = "INTERNAL_ERROR"
+  ) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+/**
+ * Turn a failed upstream HTTP response into a routing error
+ * Upstream statuses are mapped to our own, so that a provider rejecting our
+ * key doesn't read as the client being forbidden
+ */
+export function toUpstreamError(
+  message: string,
+  upstreamStatus: number,
+  response?: unknown
+): RoutingError {
+  if (upstreamStatus === 429) {
+    return new RoutingError(message, 503, response, "UPSTREAM_QUOTA");
+  }
+  if (upstreamStatus === 408 || upstreamStatus === 504) {
+    return new RoutingError(message, 504, response, "UPSTREAM_TIMEOUT");
+  }
+  return new RoutingError(message, 502, response, "UPSTREAM_ERROR");
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { API_CONFIG } from "@/lib/constants";
+import { fetchUpstream } from "./upstream";
+
+const ROUTES_URL = "https://routes.example.com";
+
+/** Make every attempt's own timeout fire straight away */
+function timeOutEveryAttempt() {
+  vi.spyOn(AbortSignal, "timeout").mockImplementation(() =>
+    AbortSignal.abort(new DOMException("Timed out", "TimeoutError"))
+  );
+}
+
+/** Run fetchUpstream to completion, skipping the backoff between attempts */
+async function settle(
+  promise: Promise<Response>
+): Promise<{ value?: Response; error?: unknown }> {
+  const settled = promise.then(
+    (value) => ({ value }),
+    (error: unknown) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  return settled;
+}
+
+describe("fetchUpstream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries a timed out attempt", async () => {
+    timeOutEveryAttempt();
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new DOMException("Timed out", "TimeoutError"))
+      .mockResolvedValue(Response.json({ routes: [] }));
+    vi.stubGlobal("fetch", fetch);
+
+    const { value } = await settle(fetchUpstream(ROUTES_URL, {}));
+
+    expect(value?.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up with UPSTREAM_TIMEOUT once every attempt has timed out", async () => {
+    timeOutEveryAttempt();
+    const fetch = vi
+      .fn()
+      .mockRejectedValue(new DOMException("Timed out", "TimeoutError"));
+    vi.stubGlobal("fetch", fetch);
+
+    const { error } = await settle(fetchUpstream(ROUTES_URL, {}));
+
+    expect(error).toEqual(
+      expect.objectContaining({ code: "UPSTREAM_TIMEOUT", statusCode: 504 })
+    );
+    expect(fetch).toHaveBeenCalledTimes(API_CONFIG.MAX_RETRIES + 1);
+  });
+
+  it("releases the body of a response it retries", async () => {
+    const failed = new Response("unavailable", { status: 503 });
+    const cancel = vi.spyOn(failed.body!, "cancel");
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(failed)
+      .mockResolvedValue(Response.json({ routes: [] }));
+    vi.stubGlobal("fetch", fetch);
+
+    const { value } = await settle(fetchUpstream(ROUTES_URL, {}));
+
+    expect(cancel).toHaveBeenCalled();
+    expect(value?.status).toBe(200);
+  });
+
+  it("stops retrying when the caller aborts", async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn().mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(controller.signal.reason);
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const { error } = await settle(
+      fetchUpstream(ROUTES_URL, {}, controller.signal)
+    );
+
+    expect(error).toBe(controller.signal.reason);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
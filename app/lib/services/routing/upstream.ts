@@ -0,0 +1,108 @@
+/**
+ * Upstream Requests
+ * Fetch for routing provider APIs with a timeout, bounded retries and
+ * cancellation. The caller's signal aborts the upstream call, so a search
+ * the user has moved on from stops spending quota.
+ */
+
+import { API_CONFIG } from "@/lib/constants";
+import { consumeRouteBudget, RouteBudgetError } from "./limits";
+import { RoutingError } from "./provider";
+
+// Statuses worth asking again for - quota errors are left to provider fallback
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+/**
+ * Wait before the next attempt, stopping early when the caller gives up
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with jitter, so retries from many requests spread out
+ */
+const getRetryDelay = (attempt: number) =>
+  API_CONFIG.RETRY_DELAY * 2 ** attempt * (0.5 + Math.random() / 2);
+
+/**
+ * Fetch from a routing provider
+ * Each attempt spends one call from the routing budget and times out after
+ * API_CONFIG.TIMEOUT. Timeouts, network errors and server errors are retried
+ * up to API_CONFIG.MAX_RETRIES times; any other response, successful or not,
+ * is returned to the caller.
+ *
+ * @param signal - Aborts the request and any pending retry
+ * @throws RouteBudgetError when the budget has no room for another attempt
+ * @throws RoutingError with an UPSTREAM_TIMEOUT code when the last attempt times out
+ * @throws The abort reason when the caller aborts
+ */
+export async function fetchUpstream(
+  url: string,
+  init: RequestInit,
+  signal?: AbortSignal
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    // Retries cost as much as first attempts
+    const exhausted = consumeRouteBudget();
+    if (exhausted) throw new RouteBudgetError(exhausted);
+
+    const timeout = AbortSignal.timeout(API_CONFIG.TIMEOUT);
+    const isLastAttempt = attempt >= API_CONFIG.MAX_RETRIES;
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+
+      if (isLastAttempt || !RETRYABLE_STATUSES.includes(response.status)) {
+        return response;
+      }
+      console.warn(`Upstream ${response.status} from ${new URL(url).host}`);
+      // Release the connection rather than leaving the body unread
+      await response.body?.cancel();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      if (isLastAttempt && timeout.aborted) {
+        throw new RoutingError(
+          `Upstream request to ${new URL(url).host} timed out`,
+          504,
+          undefined,
+          "UPSTREAM_TIMEOUT"
+        );
+      }
+      if (isLastAttempt) {
+        throw new RoutingError(
+          `Upstream request to ${new URL(url).host} failed`,
+          502,
+          error,
+          "UPSTREAM_ERROR"
+        );
+      }
+
+      console.warn(
+        `Upstream request to ${new URL(url).host} ${
+          timeout.aborted ? "timed out" : "failed"
+        }:`,
+        error
+      );
+    }
+
+    await sleep(getRetryDelay(attempt), signal);
+  }
+}
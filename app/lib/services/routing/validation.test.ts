@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { googleRoutingProvider } from "./google";
+import { validateRouteMatrixRequest, validateRouteRequest } from "./validation";
+
+const request = {
+  originLat: 51.5,
+  originLng: -0.12,
+  destinationLat: 51.52,
+  destinationLng: -0.08,
+};
+
+const PAST = "2020-01-01T18:00:00Z";
+const FUTURE = "2099-01-01T18:00:00Z";
+
+const invalidRequest = expect.objectContaining({ code: "INVALID_REQUEST" });
+
+describe("validateRouteRequest", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a real provider", () => {
+    expect(validateRouteRequest({ ...request, provider: "mapbox" })).toEqual(
+      expect.objectContaining({ provider: "mapbox" })
+    );
+  });
+
+  it("rejects the local provider when local routing is off", () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTING_PROVIDER", "");
+
+    expect(() =>
+      validateRouteRequest({ ...request, provider: "local" })
+    ).toThrow(expect.objectContaining({ code: "INVALID_REQUEST" }));
+  });
+
+  it("accepts the local provider when local routing is on", () => {
+    vi.stubEnv("NEXT_PRIVATE_ROUTING_PROVIDER", "local");
+
+    expect(validateRouteRequest({ ...request, provider: "local" })).toEqual(
+      expect.objectContaining({ provider: "local" })
+    );
+  });
+
+  it("rejects coordinates outside London", () => {
+    expect(() =>
+      validateRouteRequest({ ...request, originLat: 48.85, originLng: 2.35 })
+    ).toThrow(expect.objectContaining({ code: "OUT_OF_AREA" }));
+  });
+
+  it.each([NaN, Infinity, -Infinity, "51.5", null])(
+    "rejects %s as a coordinate",
+    (latitude) => {
+      expect(() =>
+        validateRouteRequest({ ...request, originLat: latitude })
+      ).toThrow(invalidRequest);
+    }
+  );
+
+  it("rejects missing coordinates", () => {
+    expect(() =>
+      validateRouteRequest({ ...request, destinationLng: undefined })
+    ).toThrow(invalidRequest);
+  });
+
+  it("rejects an unknown travel mode", () => {
+    expect(() =>
+      validateRouteRequest({ ...request, travelMode: "HOVERCRAFT" })
+    ).toThrow(invalidRequest);
+  });
+
+  it("rejects a departure time that isn't a date", () => {
+    expect(() =>
+      validateRouteRequest({ ...request, departureTime: "teatime" })
+    ).toThrow(invalidRequest);
+    expect(() =>
+      validateRouteRequest({ ...request, departureTime: 1800 })
+    ).toThrow(invalidRequest);
+  });
+
+  it("rejects a departure and an arrival time together", () => {
+    expect(() =>
+      validateRouteRequest({
+        ...request,
+        departureTime: FUTURE,
+        arrivalTime: FUTURE,
+      })
+    ).toThrow(invalidRequest);
+  });
+
+  it("accepts a past departure, which transit can route", () => {
+    expect(
+      validateRouteRequest({
+        ...request,
+        travelMode: "TRANSIT",
+        departureTime: PAST,
+      })
+    ).toEqual(expect.objectContaining({ departureTime: PAST }));
+  });
+
+  it("rejects intermediate stops for transit", () => {
+    expect(() =>
+      validateRouteRequest({
+        ...request,
+        travelMode: "TRANSIT",
+        intermediates: [{ latitude: 51.51, longitude: -0.1 }],
+      })
+    ).toThrow(invalidRequest);
+  });
+});
+
+describe("validateRouteMatrixRequest", () => {
+  it("rejects a matrix with no destinations", () => {
+    expect(() =>
+      validateRouteMatrixRequest({
+        origins: [{ latitude: 51.5, longitude: -0.12 }],
+        destinations: [],
+      })
+    ).toThrow(invalidRequest);
+  });
+
+  it("rejects NaN coordinates in a matrix", () => {
+    expect(() =>
+      validateRouteMatrixRequest({
+        origins: [{ latitude: NaN, longitude: -0.12 }],
+        destinations: [{ latitude: 51.52, longitude: -0.08 }],
+      })
+    ).toThrow(invalidRequest);
+  });
+});
+
+describe("journey times sent to Google", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  /** The Routes API request body for a validated request */
+  async function sentBody(body: object) {
+    vi.stubEnv("NEXT_PRIVATE_GOOGLE_MAPS_API_KEY", "test-key");
+    const fetch = vi.fn().mockResolvedValue(Response.json({ routes: [] }));
+    vi.stubGlobal("fetch", fetch);
+
+    await googleRoutingProvider.computeRoutes(
+      validateRouteRequest({ ...request, ...body })
+    );
+    return JSON.parse(fetch.mock.calls[0][1].body);
+  }
+
+  it("drops an arrival time outside transit", async () => {
+    const sent = await sentBody({ travelMode: "WALK", arrivalTime: FUTURE });
+
+    expect(sent.arrivalTime).toBeUndefined();
+  });
+
+  it("keeps an arrival time for transit", async () => {
+    const sent = await sentBody({ travelMode: "TRANSIT", arrivalTime: FUTURE });
+
+    expect(sent.arrivalTime).toBe(FUTURE);
+  });
+
+  it("drops a past departure outside transit", async () => {
+    const sent = await sentBody({ travelMode: "BICYCLE", departureTime: PAST });
+
+    expect(sent.departureTime).toBeUndefined();
+  });
+
+  it("keeps a past departure for transit", async () => {
+    const sent = await sentBody({ travelMode: "TRANSIT", departureTime: PAST });
+
+    expect(sent.departureTime).toBe(PAST);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Routes API Validation
+ * Checks untrusted request bodies before anything is routed: coordinates
+ * must be real numbers near London, and every option must be one the
+ * routing providers understand
+ */
+
+import { LONDON_MAP_CONFIG, ROUTE_VALIDATION_CONFIG } from "@/lib/constants";
+import type {
+  GoogleLatLng,
+  GoogleRouteMatrixRequestParams,
+  GoogleRouteTravelMode,
+  GoogleRoutingPreference,
+  GoogleUnits,
+} from "@/types/routes";
+import type { RouteRequestParams } from "@/types/routing";
+import {
+  ROUTING_PROVIDER_NAMES,
+  RoutingError,
+  isLocalRoutingEnabled,
+} from "./provider";
+
+const TRAVEL_MODES = [
+  "TRAVEL_MODE_UNSPECIFIED",
+  "DRIVE",
+  "BICYCLE",
+  "WALK",
+  "TWO_WHEELER",
+  "TRANSIT",
+] as const satisfies readonly GoogleRouteTravelMode[];
+
+const ROUTING_PREFERENCES = [
+  "ROUTING_PREFERENCE_UNSPECIFIED",
+  "TRAFFIC_UNAWARE",
+  "TRAFFIC_AWARE",
+  "TRAFFIC_AWARE_OPTIMAL",
+] as const satisfies readonly GoogleRoutingPreference[];
+
+const UNITS = [
+  "UNITS_UNSPECIFIED",
+  "METRIC",
+  "IMPERIAL",
+] as const satisfies readonly GoogleUnits[];
+
+type Body = Record<string, unknown>;
+
+const invalid = (message: string) =>
+  new RoutingError(message, 400, undefined, "INVALID_REQUEST");
+
+function toBody(value: unknown): Body {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalid("Request body must be a JSON object");
+  }
+  return value as Body;
+}
+
+/**
+ * Check a location is a real coordinate inside the area we cover
+ */
+function checkLocation(
+  latitude: unknown,
+  longitude: unknown,
+  name: string
+): GoogleLatLng {
+  if (
+    typeof latitude !== "number" ||
+    typeof longitude !== "number" ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    throw invalid(`Invalid coordinates for ${name}`);
+  }
+
+  const { north, south, east, west } = LONDON_MAP_CONFIG.BOUNDS;
+  const margin = ROUTE_VALIDATION_CONFIG.BOUNDS_MARGIN;
+
+  if (
+    latitude > north + margin ||
+    latitude < south - margin ||
+    longitude > east + margin ||
+    longitude < west - margin
+  ) {
+    throw new RoutingError(
+      `The ${name} is outside the area we cover (${latitude}, ${longitude})`,
+      422,
+      undefined,
+      "OUT_OF_AREA"
+    );
+  }
+
+  return { latitude, longitude };
+}
+
+function checkLatLng(value: unknown, name: string): GoogleLatLng {
+  const { latitude, longitude } = toBody(value);
+  return checkLocation(latitude, longitude, name);
+}
+
+/**
+ * Check an optional field is one of the allowed values
+ */
+function checkOneOf<T extends string>(
+  body: Body,
+  field: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = body[field];
+  if (value === undefined) return undefined;
+
+  if (!allowed.some((option) => option === value)) {
+    throw invalid(`Unknown ${field}: ${String(value)}`);
+  }
+  return value as T;
+}
+
+function checkBoolean(body: Body, field: string): boolean | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== "boolean") {
+    throw invalid(`${field} must be true or false`);
+  }
+  return value as boolean | undefined;
+}
+
+/**
+ * Check the requested provider, which may only be the synthetic local one
+ * when local routing is switched on for the whole server
+ */
+function checkProvider(body: Body) {
+  const provider = checkOneOf(body, "provider", ROUTING_PROVIDER_NAMES);
+
+  if (provider === "local" && !isLocalRoutingEnabled()) {
+    throw invalid("Unknown provider: local");
+  }
+  return provider;
+}
+
+/**
+ * Check the departure or arrival time, of which at most one may be set
+ */
+function checkJourneyTime(body: Body): {
+  departureTime?: string;
+  arrivalTime?: string;
+} {
+  const { departureTime, arrivalTime } = body;
+
+  // Google accepts a departure time or an arrival time, but not both
+  if (departureTime !== undefined && arrivalTime !== undefined) {
+    throw invalid("Set either departureTime or arrivalTime, not both");
+  }
+
+  const journeyTime = departureTime ?? arrivalTime;
+  if (
+    journeyTime !== undefined &&
+    (typeof journeyTime !== "string" || Number.isNaN(Date.parse(journeyTime)))
+  ) {
+    throw invalid(`Invalid journey time: ${String(journeyTime)}`);
+  }
+
+  return {
+    departureTime: departureTime as string | undefined,
+    arrivalTime: arrivalTime as string | undefined,
+  };
+}
+
+/**
+ * Validate the body of a routes API request
+ *
+ * @returns The request with only known fields
+ * @throws RoutingError with an INVALID_REQUEST or OUT_OF_AREA code
+ */
+export function validateRouteRequest(value: unknown): RouteRequestParams {
+  const body = toBody(value);
+  const origin = checkLocation(body.originLat, body.originLng, "origin");
+  const destination = checkLocation(
+    body.destinationLat,
+    body.destinationLng,
+    "destination"
+  );
+  const travelMode = checkOneOf(body, "travelMode", TRAVEL_MODES);
+
+  if (body.intermediates !== undefined && !Array.isArray(body.intermediates)) {
+    throw invalid("intermediates must be a list of locations");
+  }
+  const intermediates = (body.intermediates as unknown[] | undefined)?.map(
+    (stop, index) => checkLatLng(stop, `stop ${index + 1}`)
+  );
+
+  if (
+    intermediates &&
+    intermediates.length > ROUTE_VALIDATION_CONFIG.MAX_INTERMEDIATES
+  ) {
+    throw invalid(
+      `Too many stops: ${intermediates.length} (max ${ROUTE_VALIDATION_CONFIG.MAX_INTERMEDIATES})`
+    );
+  }
+
+  // Transit can't be routed through intermediate stops
+  if (intermediates?.length && travelMode === "TRANSIT") {
+    throw invalid("Intermediate stops are not supported for TRANSIT");
+  }
+
+  return {
+    originLat: origin.latitude,
+    originLng: origin.longitude,
+    destinationLat: destination.latitude,
+    destinationLng: destination.longitude,
+    travelMode,
+    routingPreference: checkOneOf(
+      body,
+      "routingPreference",
+      ROUTING_PREFERENCES
+    ),
+    units: checkOneOf(body, "units", UNITS),
+    computeAlternativeRoutes: checkBoolean(body, "computeAlternativeRoutes"),
+    avoidTolls: checkBoolean(body, "avoidTolls"),
+    avoidHighways: checkBoolean(body, "avoidHighways"),
+    avoidFerries: checkBoolean(body, "avoidFerries"),
+    ...checkJourneyTime(body),
+    intermediates,
+    provider: checkProvider(body),
+  };
+}
+
+/**
+ * Validate the body of a route matrix request
+ *
+ * @returns The request with only known fields
+ * @throws RoutingError with an INVALID_REQUEST or OUT_OF_AREA code
+ */
+export function validateRouteMatrixRequest(
+  value: unknown
+): GoogleRouteMatrixRequestParams {
+  const body = toBody(value);
+
+  if (
+    !Array.isArray(body.origins) ||
+    !Array.isArray(body.destinations) ||
+    body.origins.length === 0 ||
+    body.destinations.length === 0
+  ) {
+    throw invalid("Missing required parameters: origins, destinations");
+  }
+
+  return {
+    origins: body.origins.map((origin: unknown, index) =>
+      checkLatLng(origin, `origin ${index + 1}`)
+    ),
+    destinations: body.destinations.map((destination: unknown, index) =>
+      checkLatLng(destination, `destination ${index + 1}`)
+    ),
+    travelMode: checkOneOf(body, "travelMode", TRAVEL_MODES),
+    units: checkOneOf(body, "units", UNITS),
+    ...checkJourneyTime(body),
+  };
+}
@@ -4,7 +4,7 @@
  * EPSG:27700 (British National Grid) -> EPSG:4326 (WGS84)
  */
 
-import type { GoogleRouteLegStep } from "@/types/routes";
+import type { RouteStep } from "@/types/routing";
 
 // Implementation - Ticket 3.2
 
@@ -64,13 +64,54 @@ export function decodePolyline(
   return coordinates;
 }
 
+/**
+ * Encode [lng, lat] coordinates as a Google Encoded Polyline
+ * The inverse of decodePolyline
+ * @see https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ *
+ * @param coordinates - Array of [longitude, latitude] tuples
+ * @param precision - Coordinate precision (default: 5 for Google, 6 for Mapbox)
+ * @returns The encoded polyline string
+ */
+export function encodePolyline(
+  coordinates: [number, number][],
+  precision: number = 5
+): string {
+  const factor = Math.pow(10, precision);
+  let encoded = "";
+  let previousLat = 0;
+  let previousLng = 0;
+
+  const encodeValue = (value: number) => {
+    // Zig-zag encode the sign, then emit 5-bit chunks from the lowest up
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    while (remaining >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    encoded += String.fromCharCode(remaining + 63);
+  };
+
+  coordinates.forEach(([lng, lat]) => {
+    // Note: Google encodes latitude first
+    const roundedLat = Math.round(lat * factor);
+    const roundedLng = Math.round(lng * factor);
+    encodeValue(roundedLat - previousLat);
+    encodeValue(roundedLng - previousLng);
+    previousLat = roundedLat;
+    previousLng = roundedLng;
+  });
+
+  return encoded;
+}
+
 /**
  * Calculate the distance between two coordinates using the Haversine formula
  * @param coord1 - First coordinate [lng, lat]
  * @param coord2 - Second coordinate [lng, lat]
  * @returns Distance in meters
  */
-function haversineDistance(
+export function haversineDistance(
   coord1: [number, number],
   coord2: [number, number]
 ): number {
@@ -163,58 +204,40 @@ export function getPositionOnPolyline(
 }
 
 /**
- * Parse a Google duration string (e.g., "120s") to seconds
- * @param duration - Duration string in format "Xs" where X is seconds
- * @returns Duration in seconds
+ * Get the total duration of a route in seconds
+ * @param steps - Array of RouteStep from a routing provider
+ * @returns Sum of the steps' durations in seconds
  */
-function parseDurationToSeconds(duration: string | undefined): number {
-  if (!duration) return 0;
-  return parseFloat(duration.replace("s", ""));
+export function getRouteDurationSeconds(steps: RouteStep[]): number {
+  return steps.reduce((sum, step) => sum + step.duration, 0);
 }
 
 /**
- * Find the midpoint coordinate of a route based on duration
- * Finds the step that contains the temporal middle of the route,
- * then returns the coordinate at the middle of that step's polyline
+ * Find the coordinate reached after travelling for a given time along a route
+ * Finds the step that contains the target time, then interpolates along
+ * that step's path
  *
- * @param steps - Array of GoogleRouteLegStep from the Routes API
- * @returns The [lng, lat] coordinate at the middle of the route, or null if invalid
+ * @param steps - Array of RouteStep from a routing provider
+ * @param targetTime - Seconds from the start of the route
+ * @returns The [lng, lat] coordinate at the target time, or null if invalid
  */
-export function getRouteMidpointByDuration(
-  steps: GoogleRouteLegStep[]
+export function getRoutePositionAtTime(
+  steps: RouteStep[],
+  targetTime: number
 ): [number, number] | null {
   if (!steps || steps.length === 0) {
     return null;
   }
 
-  // Calculate total duration and step durations
-  const stepDurations = steps.map((step) =>
-    parseDurationToSeconds(step.staticDuration)
-  );
-  const totalDuration = stepDurations.reduce((sum, d) => sum + d, 0);
-
-  if (totalDuration === 0) {
-    return null;
-  }
-
-  const targetTime = totalDuration / 2;
-
-  // Find the step that contains the midpoint
+  // Find the step that contains the target time
   let accumulatedTime = 0;
 
   for (let i = 0; i < steps.length; i++) {
-    const stepDuration = stepDurations[i];
+    const stepDuration = steps[i].duration;
 
     if (accumulatedTime + stepDuration >= targetTime) {
-      // The midpoint is within this step
-      const step = steps[i];
-
-      if (!step.polyline?.encodedPolyline) {
-        return null;
-      }
-
-      // Decode the step's polyline
-      const polyline = decodePolyline(step.polyline.encodedPolyline);
+      // The target time is within this step
+      const polyline = steps[i].coordinates;
 
       if (polyline.length === 0) {
         return null;
@@ -234,14 +257,269 @@ export function getRouteMidpointByDuration(
 
   // Fallback: return the midpoint of the last step
   const lastStep = steps[steps.length - 1];
-  if (lastStep.polyline?.encodedPolyline) {
-    const polyline = decodePolyline(lastStep.polyline.encodedPolyline);
-    return getPositionOnPolyline(polyline, 0.5);
+  if (lastStep.coordinates.length > 0) {
+    return getPositionOnPolyline(lastStep.coordinates, 0.5);
   }
 
   return null;
 }
 
+/**
+ * A route flattened into one line, with the distance and time reached at
+ * every vertex
+ */
+export interface RouteTimeline {
+  /** Every vertex of the route [lng, lat] */
+  coordinates: [number, number][];
+  /** Distance travelled when reaching each vertex (meters) */
+  distances: number[];
+  /** Time taken to reach each vertex (seconds) */
+  times: number[];
+}
+
+/**
+ * Flatten a route's steps into a single timed line
+ * Time within a step is spread along its path in proportion to distance
+ *
+ * @param steps - Array of RouteStep from a routing provider
+ * @returns The route timeline (empty if no step has a path)
+ */
+export function getRouteTimeline(steps: RouteStep[]): RouteTimeline {
+  const timeline: RouteTimeline = { coordinates: [], distances: [], times: [] };
+  let distanceBefore = 0;
+  let timeBefore = 0;
+
+  steps.forEach((step) => {
+    const stepDuration = step.duration;
+    const polyline = step.coordinates;
+
+    const stepDistances = polyline.map((_, i) =>
+      i === 0 ? 0 : haversineDistance(polyline[i - 1], polyline[i])
+    );
+    const stepLength = stepDistances.reduce((sum, d) => sum + d, 0);
+
+    let distanceIntoStep = 0;
+    polyline.forEach((coordinate, i) => {
+      distanceIntoStep += stepDistances[i];
+
+      // Steps share their boundary vertex, so don't repeat it
+      if (i === 0 && timeline.coordinates.length > 0) return;
+
+      timeline.coordinates.push(coordinate);
+      timeline.distances.push(distanceBefore + distanceIntoStep);
+      timeline.times.push(
+        timeBefore +
+          (stepLength > 0 ? (stepDuration * distanceIntoStep) / stepLength : 0)
+      );
+    });
+
+    distanceBefore += stepLength;
+    timeBefore += stepDuration;
+  });
+
+  return timeline;
+}
+
+/**
+ * Find the time taken to reach a position along a route timeline
+ *
+ * @param timeline - Timeline from getRouteTimeline
+ * @param position - Position along the route by distance (0 = start, 1 = end)
+ * @returns Seconds from the start of the route
+ */
+export function getTimelineTimeAtPosition(
+  timeline: RouteTimeline,
+  position: number
+): number {
+  const { distances, times } = timeline;
+  if (distances.length === 0) return 0;
+
+  const targetDistance =
+    Math.max(0, Math.min(1, position)) * distances[distances.length - 1];
+  const index = distances.findIndex((distance) => distance >= targetDistance);
+  if (index <= 0) return times[Math.max(0, index)];
+
+  const segmentLength = distances[index] - distances[index - 1];
+  const ratio =
+    segmentLength > 0
+      ? (targetDistance - distances[index - 1]) / segmentLength
+      : 0;
+
+  return times[index - 1] + (times[index] - times[index - 1]) * ratio;
+}
+
+/**
+ * Find the coordinate reached after a fraction of a route's total duration
+ *
+ * @param steps - Array of RouteStep from a routing provider
+ * @param fraction - Share of the total duration (0 = start, 1 = end)
+ * @returns The [lng, lat] coordinate at that point of the route, or null if invalid
+ */
+export function getRoutePointAtDurationFraction(
+  steps: RouteStep[],
+  fraction: number
+): [number, number] | null {
+  if (!steps || steps.length === 0) {
+    return null;
+  }
+
+  const totalDuration = getRouteDurationSeconds(steps);
+
+  if (totalDuration === 0) {
+    return null;
+  }
+
+  const clampedFraction = Math.max(0, Math.min(1, fraction));
+
+  return getRoutePositionAtTime(steps, totalDuration * clampedFraction);
+}
+
+/**
+ * Find the midpoint coordinate of a route based on duration
+ * Finds the step that contains the temporal middle of the route,
+ * then returns the coordinate at the middle of that step's path
+ *
+ * @param steps - Array of RouteStep from a routing provider
+ * @returns The [lng, lat] coordinate at the middle of the route, or null if invalid
+ */
+export function getRouteMidpointByDuration(
+  steps: RouteStep[]
+): [number, number] | null {
+  return getRoutePointAtDurationFraction(steps, 0.5);
+}
+
+/**
+ * Calculate the arithmetic centroid of a set of coordinates
+ * Accurate enough for points spread across a single city
+ *
+ * @param points - Array of [lng, lat] coordinates
+ * @returns The [lng, lat] centroid, or null if no points were given
+ */
+export function getCentroid(
+  points: [number, number][]
+): [number, number] | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const [lngSum, latSum] = points.reduce(
+    ([lng, lat], point) => [lng + point[0], lat + point[1]],
+    [0, 0]
+  );
+
+  return [lngSum / points.length, latSum / points.length];
+}
+
+/**
+ * Calculate the geodesic midpoint of a set of coordinates
+ * Averages the points as 3D unit vectors on the sphere, so it stays correct
+ * for points far apart. Needs no routing data at all.
+ *
+ * Travel weights pull the midpoint away from whoever is happy to travel
+ * further: each point counts in proportion to 1 / weight, so with two people
+ * the split of the distance matches the split of the weights.
+ *
+ * @param points - Array of [lng, lat] coordinates
+ * @param weights - Travel weight of each point (defaults to 1 for everyone)
+ * @returns The [lng, lat] midpoint, or null if no points were given
+ */
+export function getGeodesicMidpoint(
+  points: [number, number][],
+  weights?: number[]
+): [number, number] | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  let totalInfluence = 0;
+
+  points.forEach(([lng, lat], index) => {
+    const influence = 1 / (weights?.[index] ?? 1);
+    const latRad = toRadians(lat);
+    const lngRad = toRadians(lng);
+    x += Math.cos(latRad) * Math.cos(lngRad) * influence;
+    y += Math.cos(latRad) * Math.sin(lngRad) * influence;
+    z += Math.sin(latRad) * influence;
+    totalInfluence += influence;
+  });
+
+  x /= totalInfluence;
+  y /= totalInfluence;
+  z /= totalInfluence;
+
+  const lng = Math.atan2(y, x);
+  const lat = Math.atan2(z, Math.sqrt(x * x + y * y));
+
+  return [toDegrees(lng), toDegrees(lat)];
+}
+
+/**
+ * Find a generalised duration midpoint for a group of routes
+ * Every route is expected to end at the same shared destination (the hub).
+ *
+ * Each participant's target time is their share of the group's journey
+ * time, scaled by their travel weight (an equal share by default). Anyone
+ * whose journey is longer than their target stops short of the hub at that
+ * fraction of their route, and the meeting point is the average of those
+ * stopping points weighted by how much time each of them saves. With two
+ * people this splits the A -> hub -> B journey in the ratio of their weights,
+ * which is exactly its duration midpoint when the weights are equal.
+ *
+ * @param routes - Steps of each participant's route to the shared hub
+ * @param weights - Travel weight of each participant (defaults to 1 for everyone)
+ * @returns The [lng, lat] meeting point, or null if any route is invalid
+ */
+export function getGroupMidpointByDuration(
+  routes: RouteStep[][],
+  weights?: number[]
+): [number, number] | null {
+  if (routes.length === 0 || routes.some((steps) => steps.length === 0)) {
+    return null;
+  }
+
+  const durations = routes.map(getRouteDurationSeconds);
+  const routeWeights = routes.map((_, index) => weights?.[index] ?? 1);
+  const totalDuration = durations.reduce((sum, duration) => sum + duration, 0);
+  const totalRouteWeight = routeWeights.reduce(
+    (sum, weight) => sum + weight,
+    0
+  );
+
+  let lngSum = 0;
+  let latSum = 0;
+  let totalWeight = 0;
+
+  routes.forEach((steps, index) => {
+    const targetTime = (totalDuration * routeWeights[index]) / totalRouteWeight;
+    const excess = durations[index] - targetTime;
+    if (excess <= 0) return;
+
+    const position = getRoutePointAtDurationFraction(
+      steps,
+      targetTime / durations[index]
+    );
+    if (!position) return;
+
+    lngSum += position[0] * excess;
+    latSum += position[1] * excess;
+    totalWeight += excess;
+  });
+
+  if (totalWeight > 0) {
+    return [lngSum / totalWeight, latSum / totalWeight];
+  }
+
+  // Everyone takes the same time: meet at the hub itself
+  const { coordinates } = routes[0][routes[0].length - 1];
+  return coordinates.length > 0 ? coordinates[coordinates.length - 1] : null;
+}
+
 /**
  * Check which coordinates are within a threshold distance from a center point
  *
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { haversineDistance } from "./coordinates";
+import {
+  createCirclePolygon,
+  getMultiPolygonBounds,
+  intersectPolygons,
+  isPointInMultiPolygon,
+} from "./geometry";
+
+const CENTER: [number, number] = [-0.1276, 51.5074];
+
+/** An axis-aligned square polygon from its corners */
+const square = (
+  west: number,
+  south: number,
+  east: number,
+  north: number
+): GeoJSON.Polygon => ({
+  type: "Polygon",
+  coordinates: [
+    [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ],
+  ],
+});
+
+describe("createCirclePolygon", () => {
+  it("puts every vertex at the radius", () => {
+    // The transit fallback draws circles this size
+    const radius = 2500;
+    const [ring] = createCirclePolygon(CENTER, radius).coordinates;
+
+    ring.forEach((vertex) =>
+      expect(
+        Math.abs(haversineDistance(CENTER, vertex as [number, number]) - radius)
+      ).toBeLessThan(1)
+    );
+  });
+
+  it("closes the ring", () => {
+    const [ring] = createCirclePolygon(CENTER, 500, 16).coordinates;
+
+    expect(ring).toHaveLength(17);
+    expect(ring[16]).toEqual(ring[0]);
+  });
+});
+
+describe("intersectPolygons", () => {
+  it("returns the area every polygon shares", () => {
+    const shared = intersectPolygons([
+      square(0, 0, 2, 2),
+      square(1, 1, 3, 3),
+      square(0, 1, 3, 1.5),
+    ]);
+
+    expect(shared).not.toBeNull();
+    expect(getMultiPolygonBounds(shared!)).toEqual([
+      [1, 1],
+      [2, 1.5],
+    ]);
+  });
+
+  it("returns null when the polygons don't all overlap", () => {
+    expect(
+      intersectPolygons([square(0, 0, 1, 1), square(2, 2, 3, 3)])
+    ).toBeNull();
+  });
+
+  it("returns null for no polygons", () => {
+    expect(intersectPolygons([])).toBeNull();
+  });
+
+  it("overlaps circles around nearby points", () => {
+    const shared = intersectPolygons([
+      createCirclePolygon(CENTER, 1000),
+      createCirclePolygon([CENTER[0] + 0.02, CENTER[1]], 1000),
+    ]);
+    const between: [number, number] = [CENTER[0] + 0.01, CENTER[1]];
+
+    expect(shared).not.toBeNull();
+    expect(isPointInMultiPolygon(between, shared!)).toBe(true);
+    expect(isPointInMultiPolygon(CENTER, shared!)).toBe(false);
+  });
+});
+
+describe("isPointInMultiPolygon", () => {
+  const withHole: GeoJSON.MultiPolygon = {
+    type: "MultiPolygon",
+    coordinates: [
+      [square(0, 0, 4, 4).coordinates[0], square(1, 1, 2, 2).coordinates[0]],
+      square(10, 10, 11, 11).coordinates,
+    ],
+  };
+
+  it("finds points inside any of the polygons", () => {
+    expect(isPointInMultiPolygon([3, 3], withHole)).toBe(true);
+    expect(isPointInMultiPolygon([10.5, 10.5], withHole)).toBe(true);
+  });
+
+  it("leaves out points in a hole", () => {
+    expect(isPointInMultiPolygon([1.5, 1.5], withHole)).toBe(false);
+  });
+
+  it("leaves out points outside every polygon", () => {
+    expect(isPointInMultiPolygon([5, 5], withHole)).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Geometry Utilities
+ * Functions for building and combining GeoJSON polygons
+ */
+
+import { intersection, type Pair, type Polygon } from "polygon-clipping";
+
+const EARTH_RADIUS = 6371000; // Earth's radius in meters
+
+/**
+ * Approximate a circle on the Earth's surface as a polygon
+ * @param center - Circle center [lng, lat]
+ * @param radiusMeters - Circle radius in meters
+ * @param steps - Number of vertices on the circle
+ * @returns A closed GeoJSON polygon
+ */
+export function createCirclePolygon(
+  center: [number, number],
+  radiusMeters: number,
+  steps: number = 64
+): GeoJSON.Polygon {
+  const lat1 = (center[1] * Math.PI) / 180;
+  const lng1 = (center[0] * Math.PI) / 180;
+  const angularDistance = radiusMeters / EARTH_RADIUS;
+  const ring: [number, number][] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+        Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+
+    ring.push([(lng2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+
+  // Close the ring
+  ring.push(ring[0]);
+
+  return { type: "Polygon", coordinates: [ring] };
+}
+
+/**
+ * Intersect a set of polygons into the area they all share
+ * @param polygons - Polygons to intersect
+ * @returns The shared area, or null if the polygons don't all overlap
+ */
+export function intersectPolygons(
+  polygons: GeoJSON.Polygon[]
+): GeoJSON.MultiPolygon | null {
+  if (polygons.length === 0) {
+    return null;
+  }
+
+  const [first, ...rest] = polygons.map(
+    (polygon) => polygon.coordinates as Polygon
+  );
+  const shared = intersection(first, ...rest);
+
+  if (shared.length === 0) {
+    return null;
+  }
+
+  return { type: "MultiPolygon", coordinates: shared };
+}
+
+/**
+ * Check whether a point lies inside a ring using ray casting
+ */
+function isPointInRing(point: [number, number], ring: Pair[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a multipolygon (respecting holes)
+ * @param point - The [lng, lat] coordinate to test
+ * @param multiPolygon - The area to test against
+ * @returns True if the point is inside the area
+ */
+export function isPointInMultiPolygon(
+  point: [number, number],
+  multiPolygon: GeoJSON.MultiPolygon
+): boolean {
+  return multiPolygon.coordinates.some(([outerRing, ...holes]) => {
+    if (!isPointInRing(point, outerRing as Pair[])) return false;
+    return !holes.some((hole) => isPointInRing(point, hole as Pair[]));
+  });
+}
+
+/**
+ * Get the bounding box of a multipolygon
+ * @param multiPolygon - The area to measure
+ * @returns [[west, south], [east, north]] in degrees
+ */
+export function getMultiPolygonBounds(
+  multiPolygon: GeoJSON.MultiPolygon
+): [[number, number], [number, number]] {
+  const positions = multiPolygon.coordinates.flat(2);
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+
+  return [
+    [Math.min(...lngs), Math.min(...lats)],
+    [Math.max(...lngs), Math.max(...lats)],
+  ];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { PubFeature } from "@/types/pub";
+import type { RouteStep } from "@/types/routing";
+import { findPubsAlongRoutes } from "./meetup";
+import { SpatialIndex } from "./spatialIndex";
+
+const pub = (objectid: number, coordinates: [number, number]): PubFeature => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates },
+  properties: {
+    objectid,
+    name: `Pub ${objectid}`,
+    address1: "",
+    borough_name: "",
+    postcode: "",
+    x: 0,
+    y: 0,
+    open_status: 1,
+  },
+});
+
+const walk = (
+  from: [number, number],
+  to: [number, number],
+  duration: number
+): RouteStep => ({
+  coordinates: [from, to],
+  distance: 0,
+  duration,
+  travelMode: "WALK",
+});
+
+// A in the west and B in the east walk to a hub between them on one line
+const A: [number, number] = [-0.2, 51.5];
+const HUB: [number, number] = [-0.1, 51.5];
+const B: [number, number] = [0, 51.5];
+
+describe("findPubsAlongRoutes", () => {
+  it("places pubs on the A -> hub -> B journey, whichever route passes them", () => {
+    const pubs = [pub(1, [-0.18, 51.5]), pub(2, [-0.02, 51.5])];
+    const index = new SpatialIndex(
+      pubs,
+      ({ geometry }) => geometry.coordinates
+    );
+
+    const recommendations = findPubsAlongRoutes(
+      index,
+      [[walk(A, HUB, 1000)], [walk(B, HUB, 1000)]],
+      50
+    );
+    const positions = new Map(
+      recommendations.map(({ pub, corridor }) => [
+        pub.properties.objectid,
+        corridor!.position,
+      ])
+    );
+
+    expect(positions.get(1)).toBeCloseTo(0.1, 2);
+    expect(positions.get(2)).toBeCloseTo(0.9, 2);
+  });
+});
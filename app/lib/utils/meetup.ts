@@ -0,0 +1,325 @@
+/**
+ * Meetup Utilities
+ * Functions for scoring candidate pubs against every participant's journey
+ */
+
+import { MEETUP_CONFIG } from "@/lib/constants";
+import type { PubFeature } from "@/types/pub";
+import type { RouteStep } from "@/types/routing";
+import type { FairnessScore, RecommendedPub } from "@/types/meetup";
+import {
+  getRouteTimeline,
+  getTimelineTimeAtPosition,
+  haversineDistance,
+} from "./coordinates";
+import type { PolylineMatch, SpatialIndex } from "./spatialIndex";
+
+/**
+ * Estimate each participant's journey time to a location
+ * Scales each participant's routed journey to the hub by the straight-line
+ * distance ratio, so detours and transit speed are carried over.
+ *
+ * @param origins - Starting location of every participant [lng, lat]
+ * @param hubDurations - Routed journey time from each origin to the hub (seconds)
+ * @param hub - The shared destination the journeys were routed to [lng, lat]
+ * @param target - The location to estimate journey times to [lng, lat]
+ * @returns Estimated journey time for each participant in seconds
+ */
+export function estimateJourneyTimes(
+  origins: [number, number][],
+  hubDurations: number[],
+  hub: [number, number],
+  target: [number, number]
+): number[] {
+  return origins.map((origin, index) => {
+    const hubDistance = haversineDistance(origin, hub);
+    const speed =
+      hubDurations[index] > 0 && hubDistance > 0
+        ? hubDistance / hubDurations[index]
+        : MEETUP_CONFIG.FALLBACK_SPEED;
+
+    return haversineDistance(origin, target) / speed;
+  });
+}
+
+/**
+ * Score how fairly a set of journey times is shared out
+ * Combines the minimax time, the spread and the total with MEETUP_CONFIG weights.
+ * The reported times are the real ones, but the score compares each journey
+ * divided by its participant's travel weight.
+ *
+ * @param journeyTimes - Journey time for each participant in seconds
+ * @param travelWeights - Travel weight of each participant (defaults to 1 for everyone)
+ * @returns The fairness score - lower is fairer
+ */
+export function scoreFairness(
+  journeyTimes: number[],
+  travelWeights?: number[]
+): FairnessScore {
+  const maxTime = Math.max(...journeyTimes);
+  const timeDifference = maxTime - Math.min(...journeyTimes);
+  const totalTime = journeyTimes.reduce((sum, time) => sum + time, 0);
+  const weights = MEETUP_CONFIG.FAIRNESS_WEIGHTS;
+
+  const weightedTimes = journeyTimes.map(
+    (time, index) => time / (travelWeights?.[index] ?? 1)
+  );
+  const weightedMaxTime = Math.max(...weightedTimes);
+  const weightedDifference = weightedMaxTime - Math.min(...weightedTimes);
+
+  return {
+    maxTime,
+    timeDifference,
+    totalTime,
+    score:
+      weightedMaxTime * weights.MAX_TIME +
+      weightedDifference * weights.TIME_DIFFERENCE +
+      totalTime * weights.TOTAL_TIME,
+  };
+}
+
+/**
+ * Sort recommendations from fairest to least fair
+ */
+function byFairness(a: RecommendedPub, b: RecommendedPub): number {
+  return a.fairness.score - b.fairness.score;
+}
+
+/**
+ * Score pubs against every participant's estimated journey and sort them
+ * fairest first
+ *
+ * @param pubs - Candidate pubs
+ * @param origins - Starting location of every participant [lng, lat]
+ * @param hubDurations - Routed journey time from each origin to the hub (seconds)
+ * @param hub - The shared destination the journeys were routed to [lng, lat]
+ * @param travelWeights - Travel weight of each participant (defaults to 1 for everyone)
+ * @returns Recommended pubs ordered from fairest to least fair
+ */
+export function rankPubsByJourneyTime(
+  pubs: PubFeature[],
+  origins: [number, number][],
+  hubDurations: number[],
+  hub: [number, number],
+  travelWeights?: number[]
+): RecommendedPub[] {
+  return pubs
+    .map((pub) => {
+      const journeyTimes = estimateJourneyTimes(
+        origins,
+        hubDurations,
+        hub,
+        pub.geometry.coordinates
+      );
+
+      return {
+        pub,
+        journeyTimes,
+        fairness: scoreFairness(journeyTimes, travelWeights),
+        source: "estimate" as const,
+      };
+    })
+    .sort(byFairness);
+}
+
+/**
+ * Score pubs against routed journey times from a route matrix and sort them
+ * fairest first. Pubs that someone cannot reach are left out.
+ *
+ * @param pubs - Candidate pubs (the matrix destinations, in order)
+ * @param durations - Journey times in seconds indexed [origin][pub], null when unreachable
+ * @param travelWeights - Travel weight of each participant (defaults to 1 for everyone)
+ * @returns Recommended pubs ordered from fairest to least fair
+ */
+export function rankPubsByFairness(
+  pubs: PubFeature[],
+  durations: (number | null)[][],
+  travelWeights?: number[]
+): RecommendedPub[] {
+  return pubs
+    .flatMap((pub, pubIndex) => {
+      const journeyTimes = durations.map((row) => row[pubIndex]);
+      if (journeyTimes.some((time) => time === null)) return [];
+
+      return [
+        {
+          pub,
+          journeyTimes: journeyTimes as number[],
+          fairness: scoreFairness(journeyTimes as number[], travelWeights),
+          source: "matrix" as const,
+        },
+      ];
+    })
+    .sort(byFairness);
+}
+
+/**
+ * Score pubs by straight-line distance from every participant and sort them
+ * fairest first. Distances are turned into times with each participant's
+ * assumed speed so they share a scale with routed rankings.
+ *
+ * @param pubs - Candidate pubs
+ * @param origins - Starting location of every participant [lng, lat]
+ * @param speeds - Assumed straight-line travel speed of each participant (m/s)
+ * @param travelWeights - Travel weight of each participant (defaults to 1 for everyone)
+ * @returns Recommended pubs ordered from fairest to least fair
+ */
+export function rankPubsByCrowFliesDistance(
+  pubs: PubFeature[],
+  origins: [number, number][],
+  speeds: number[],
+  travelWeights?: number[]
+): RecommendedPub[] {
+  return pubs
+    .map((pub) => {
+      const journeyTimes = origins.map(
+        (origin, index) =>
+          haversineDistance(origin, pub.geometry.coordinates) / speeds[index]
+      );
+
+      return {
+        pub,
+        journeyTimes,
+        fairness: scoreFairness(journeyTimes, travelWeights),
+        source: "crow" as const,
+      };
+    })
+    .sort(byFairness);
+}
+
+/**
+ * Sort corridor recommendations from most to least central
+ */
+function byCentrality(a: RecommendedPub, b: RecommendedPub): number {
+  return (b.corridor?.centrality ?? 0) - (a.corridor?.centrality ?? 0);
+}
+
+/**
+ * Where a pub lies on the journey from the first participant to the last via
+ * the hub, by time: 0 at the first participant's start, 1 at the last's
+ */
+function getJourneyPosition(journeyTimes: number[]): number {
+  const fromFirst = journeyTimes[0] ?? 0;
+  const fromLast = journeyTimes[journeyTimes.length - 1] ?? 0;
+  return fromFirst + fromLast > 0 ? fromFirst / (fromFirst + fromLast) : 0;
+}
+
+/**
+ * Find pubs beside any participant's route to the hub and time everyone's
+ * journey to them. Whoever's route passes the pub stops part way along it;
+ * everyone else travels to the hub and back along that route. With two
+ * people this is simply the time from each end of the A -> hub -> B journey.
+ *
+ * @param pubIndex - Spatial index of the candidate pubs
+ * @param routes - Steps of each participant's route to the shared hub
+ * @param widthMeters - How far from a route a pub may be
+ * @param travelWeights - Travel weight of each participant (defaults to 1 for everyone)
+ * @param filter - Only consider pubs that pass this check
+ * @returns Recommended pubs ordered from most to least central
+ */
+export function findPubsAlongRoutes(
+  pubIndex: SpatialIndex<PubFeature>,
+  routes: RouteStep[][],
+  widthMeters: number,
+  travelWeights?: number[],
+  filter?: (pub: PubFeature) => boolean
+): RecommendedPub[] {
+  const timelines = routes.map(getRouteTimeline);
+  const hubTimes = timelines.map(({ times }) => times[times.length - 1] ?? 0);
+  const recommendations = new Map<number, RecommendedPub>();
+
+  timelines.forEach((timeline, participant) => {
+    pubIndex
+      .nearPolyline(timeline.coordinates, widthMeters, { filter })
+      .forEach(({ item: pub, distance, position }) => {
+        const timeFromStart = getTimelineTimeAtPosition(timeline, position);
+        const timeFromHub = hubTimes[participant] - timeFromStart;
+        const journeyTimes = hubTimes.map((hubTime, index) =>
+          index === participant ? timeFromStart : hubTime + timeFromHub
+        );
+
+        const weightedTimes = journeyTimes.map(
+          (time, index) => time / (travelWeights?.[index] ?? 1)
+        );
+        const longest = Math.max(...weightedTimes);
+
+        const recommendation: RecommendedPub = {
+          pub,
+          journeyTimes,
+          fairness: scoreFairness(journeyTimes, travelWeights),
+          source: "corridor",
+          corridor: {
+            participant,
+            distance,
+            // Measured on the first -> hub -> last journey, so a pub beside
+            // B's route near B sits near 1 rather than near A
+            position: getJourneyPosition(journeyTimes),
+            centrality: longest > 0 ? Math.min(...weightedTimes) / longest : 1,
+          },
+        };
+
+        // A pub beside several routes keeps its fairest placement
+        const { objectid } = pub.properties;
+        const previous = recommendations.get(objectid);
+        if (
+          !previous ||
+          recommendation.fairness.score < previous.fairness.score
+        ) {
+          recommendations.set(objectid, recommendation);
+        }
+      });
+  });
+
+  return [...recommendations.values()].sort(byCentrality);
+}
+
+/**
+ * Pick pubs spaced evenly along a route for a pub crawl
+ * Each stop is the pub nearest its share of the way along the route, counting
+ * the distance off the route as extra walking
+ *
+ * @param pubIndex - Spatial index of the candidate pubs
+ * @param steps - Steps of the route to space the stops along
+ * @param count - Number of stops wanted
+ * @param widthMeters - How far from the route a stop may be
+ * @param filter - Only consider pubs that pass this check
+ * @returns Up to count pubs in the order they are reached
+ */
+export function pickCrawlStops(
+  pubIndex: SpatialIndex<PubFeature>,
+  steps: RouteStep[],
+  count: number,
+  widthMeters: number,
+  filter?: (pub: PubFeature) => boolean
+): PubFeature[] {
+  const { coordinates, distances } = getRouteTimeline(steps);
+  const routeLength = distances[distances.length - 1] ?? 0;
+  const candidates = pubIndex.nearPolyline(coordinates, widthMeters, {
+    filter,
+  });
+  const picked = new Set<PolylineMatch<PubFeature>>();
+
+  for (let stop = 1; stop <= count; stop++) {
+    const target = stop / (count + 1);
+    let best: PolylineMatch<PubFeature> | null = null;
+    let bestCost = Infinity;
+
+    for (const candidate of candidates) {
+      if (picked.has(candidate)) continue;
+
+      const cost =
+        Math.abs(candidate.position - target) * routeLength +
+        candidate.distance;
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+
+    if (best) picked.add(best);
+  }
+
+  return [...picked]
+    .sort((a, b) => a.position - b.position)
+    .map(({ item }) => item);
+}
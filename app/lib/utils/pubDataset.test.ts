@@ -0,0 +1,38 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { PUB_DATASET_CONFIG } from "@/lib/constants";
+import {
+  isPubDataset,
+  normalizePubDataset,
+  serializePubDataset,
+} from "./pubDataset";
+
+const readCommittedDataset = () =>
+  readFile(path.resolve(process.cwd(), PUB_DATASET_CONFIG.PATH), "utf8");
+
+describe("committed pub dataset", () => {
+  it("is a dataset this version can read", async () => {
+    const dataset: unknown = JSON.parse(await readCommittedDataset());
+
+    expect(isPubDataset(dataset)).toBe(true);
+  });
+
+  it("is already normalised, so ingesting it again changes nothing", async () => {
+    const contents = await readCommittedDataset();
+    const dataset = JSON.parse(contents);
+
+    const { dataset: normalized, rejected } = normalizePubDataset(
+      dataset,
+      dataset.metadata.sourceUrl,
+      new Date(dataset.metadata.fetchedAt)
+    );
+
+    expect(rejected).toEqual([]);
+    expect(normalized.features).toEqual(dataset.features);
+    expect(dataset.metadata.count).toBe(dataset.features.length);
+    expect(
+      serializePubDataset({ ...normalized, metadata: dataset.metadata })
+    ).toBe(contents);
+  });
+});
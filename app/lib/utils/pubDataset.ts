@@ -0,0 +1,173 @@
+/**
+ * Pub Dataset Utilities
+ * Validate and normalise pubs from the London GIS layer into a dataset
+ * snapshot that is stable enough to commit and diff
+ */
+
+import { LONDON_MAP_CONFIG, PUB_DATASET_CONFIG } from "@/lib/constants";
+import type {
+  Pub,
+  PubDataset,
+  PubFeature,
+  PubFeatureCollection,
+} from "@/types/pub";
+
+/**
+ * A pub left out of the dataset and why
+ */
+export interface RejectedPub {
+  objectid: number | null;
+  reason: string;
+}
+
+const round = (value: number) =>
+  Number(value.toFixed(PUB_DATASET_CONFIG.COORDINATE_DECIMALS));
+
+/**
+ * Trim a text field, turning blanks into undefined
+ */
+function cleanText(value: string | undefined): string | undefined {
+  const trimmed = value?.replace(/\s+/g, " ").trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Write a postcode in upper case with a single space before the inward code
+ */
+function cleanPostcode(value: string | undefined): string {
+  const compact = (value ?? "").replace(/\s+/g, "").toUpperCase();
+  return compact.length > 3
+    ? `${compact.slice(0, -3)} ${compact.slice(-3)}`
+    : compact;
+}
+
+/**
+ * Check a pub can be shown and routed to
+ *
+ * @returns Why the pub is unusable, or null when it is fine
+ */
+function getRejection(feature: PubFeature): string | null {
+  const { objectid, name } = feature.properties;
+  const [longitude, latitude] = feature.geometry?.coordinates ?? [];
+  const { north, south, east, west } = LONDON_MAP_CONFIG.BOUNDS;
+
+  if (!Number.isInteger(objectid) || objectid <= 0) {
+    return "missing objectid";
+  }
+  if (!cleanText(name) || name === "Unknown") {
+    return "missing name";
+  }
+  if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) {
+    return "missing coordinates";
+  }
+  if (
+    latitude > north ||
+    latitude < south ||
+    longitude > east ||
+    longitude < west
+  ) {
+    return `outside London (${latitude}, ${longitude})`;
+  }
+  return null;
+}
+
+function normalizeFeature(feature: PubFeature): PubFeature {
+  const { properties } = feature;
+  const [longitude, latitude] = feature.geometry.coordinates.map(round);
+  const pub: Pub = {
+    ...properties,
+    name: cleanText(properties.name)!,
+    address1: cleanText(properties.address1) ?? "",
+    address2: cleanText(properties.address2),
+    address3: cleanText(properties.address3),
+    borough_name: cleanText(properties.borough_name) ?? "",
+    postcode: cleanPostcode(properties.postcode),
+    website: cleanText(properties.website),
+    ward_2022_name: cleanText(properties.ward_2022_name),
+    open_status: properties.open_status === 1 ? 1 : 0,
+    longitude,
+    latitude,
+  };
+
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [longitude, latitude] },
+    properties: pub,
+    id: pub.objectid,
+  };
+}
+
+/**
+ * Validate and normalise pubs into a dataset snapshot
+ * Features are sorted by objectid and duplicates dropped, so the same
+ * layer always produces the same file
+ *
+ * @param collection - Pubs as fetched from the London GIS layer
+ * @param sourceUrl - Layer the pubs were read from
+ * @param fetchedAt - When the layer was fetched
+ */
+export function normalizePubDataset(
+  collection: PubFeatureCollection,
+  sourceUrl: string,
+  fetchedAt: Date
+): { dataset: PubDataset; rejected: RejectedPub[] } {
+  const rejected: RejectedPub[] = [];
+  const byId = new Map<number, PubFeature>();
+
+  collection.features.forEach((feature) => {
+    const reason = getRejection(feature);
+    const objectid = feature.properties?.objectid ?? null;
+
+    if (reason) {
+      rejected.push({ objectid, reason });
+    } else if (byId.has(feature.properties.objectid)) {
+      rejected.push({ objectid, reason: "duplicate objectid" });
+    } else {
+      byId.set(feature.properties.objectid, normalizeFeature(feature));
+    }
+  });
+
+  const features = [...byId.values()].sort(
+    (a, b) => a.properties.objectid - b.properties.objectid
+  );
+
+  return {
+    dataset: {
+      type: "FeatureCollection",
+      metadata: {
+        schemaVersion: PUB_DATASET_CONFIG.SCHEMA_VERSION,
+        sourceUrl,
+        fetchedAt: fetchedAt.toISOString(),
+        count: features.length,
+      },
+      features,
+    },
+    rejected,
+  };
+}
+
+/**
+ * Write a dataset as JSON with one pub per line, so changes to the
+ * committed snapshot read as one line per pub in a diff
+ */
+export function serializePubDataset(dataset: PubDataset): string {
+  const { features, ...rest } = dataset;
+  // Everything up to and including the opening bracket of the features
+  const header = JSON.stringify({ ...rest, features: [] }).slice(0, -2);
+
+  return `${header}\n${features
+    .map((feature) => JSON.stringify(feature))
+    .join(",\n")}\n]}\n`;
+}
+
+/**
+ * Check parsed JSON is a dataset snapshot this version can read
+ */
+export function isPubDataset(value: unknown): value is PubDataset {
+  const dataset = value as PubDataset | null;
+  return (
+    dataset?.type === "FeatureCollection" &&
+    Array.isArray(dataset.features) &&
+    dataset.metadata?.schemaVersion === PUB_DATASET_CONFIG.SCHEMA_VERSION
+  );
+}
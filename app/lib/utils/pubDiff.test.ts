@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import type { Pub, PubChangeSet, PubFeature } from "@/types/pub";
+import { diffPubs, filterPubChanges, getRecentlyClosedPubs } from "./pubDiff";
+
+function pub(
+  objectid: number,
+  name: string,
+  overrides: Partial<Pub> = {},
+  coordinates: [number, number] = [-0.1276, 51.5074]
+): PubFeature {
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates },
+    properties: {
+      objectid,
+      name,
+      address1: "1 High Street",
+      borough_name: "Westminster",
+      postcode: "SW1A 1AA",
+      x: 530000,
+      y: 180000,
+      open_status: 1,
+      ...overrides,
+    },
+  };
+}
+
+const changeSet = (to: string, ...changes: PubChangeSet["changes"]) => ({
+  from: "2026-01-01T00:00:00.000Z",
+  to,
+  changes,
+});
+
+describe("diffPubs", () => {
+  it("finds nothing between identical snapshots", () => {
+    const pubs = [pub(1, "The Lamb"), pub(2, "The Flask")];
+
+    expect(diffPubs(pubs, pubs)).toEqual([]);
+  });
+
+  it("lists added and removed pubs, ordered by name", () => {
+    const changes = diffPubs(
+      [pub(1, "The Lamb"), pub(2, "The Flask")],
+      [pub(1, "The Lamb"), pub(3, "The Anchor")]
+    );
+
+    expect(changes).toEqual([
+      { type: "added", pub: pub(3, "The Anchor") },
+      { type: "removed", pub: pub(2, "The Flask") },
+    ]);
+  });
+
+  it("notices a pub closing and reopening", () => {
+    const open = pub(1, "The Lamb");
+    const closed = pub(1, "The Lamb", { open_status: 0 });
+
+    expect(diffPubs([open], [closed])).toEqual([
+      { type: "closed", pub: closed },
+    ]);
+    expect(diffPubs([closed], [open])).toEqual([
+      { type: "reopened", pub: open },
+    ]);
+  });
+
+  it("reports a rename with the old name, ignoring case and spacing", () => {
+    expect(diffPubs([pub(1, "The Lamb")], [pub(1, "the  lamb ")])).toEqual([]);
+    expect(diffPubs([pub(1, "The Lamb")], [pub(1, "The Sheep")])).toEqual([
+      { type: "renamed", pub: pub(1, "The Sheep"), previousName: "The Lamb" },
+    ]);
+  });
+
+  it("reports a move beyond the threshold with the distance", () => {
+    const before = pub(1, "The Lamb", {}, [-0.1276, 51.5074]);
+    const nudged = pub(1, "The Lamb", {}, [-0.1276, 51.5075]);
+    const moved = pub(1, "The Lamb", {}, [-0.1276, 51.5084]);
+
+    expect(diffPubs([before], [nudged])).toEqual([]);
+
+    const [change] = diffPubs([before], [moved]);
+    expect(change).toEqual(
+      expect.objectContaining({
+        type: "moved",
+        pub: moved,
+        previousCoordinates: [-0.1276, 51.5074],
+      })
+    );
+    expect(change.distance).toBeCloseTo(111, 0);
+  });
+
+  it("matches a re-entered pub by UPRN when its objectid changes", () => {
+    const before = pub(1, "The Lamb", { os_addressbase_uprn: "100023" });
+    const after = pub(7, "The Lamb", {
+      os_addressbase_uprn: "100023",
+      open_status: 0,
+    });
+
+    expect(diffPubs([before], [after])).toEqual([
+      { type: "closed", pub: after },
+    ]);
+  });
+
+  it("doesn't match by UPRN while the old objectid is still there", () => {
+    const before = pub(1, "The Lamb", { os_addressbase_uprn: "100023" });
+    const twin = pub(7, "The Lamb Annexe", { os_addressbase_uprn: "100023" });
+
+    expect(diffPubs([before], [before, twin])).toEqual([
+      { type: "added", pub: twin },
+    ]);
+  });
+});
+
+describe("filterPubChanges", () => {
+  const changeSets = [
+    changeSet(
+      "2026-03-01T00:00:00.000Z",
+      { type: "closed", pub: pub(1, "The Lamb") },
+      { type: "added", pub: pub(2, "The Flask") }
+    ),
+    changeSet("2026-02-01T00:00:00.000Z", {
+      type: "added",
+      pub: pub(3, "The Anchor"),
+    }),
+  ];
+
+  it("keeps every change when no types are given", () => {
+    expect(filterPubChanges(changeSets, [])).toBe(changeSets);
+  });
+
+  it("keeps the given types and drops change sets left empty", () => {
+    expect(filterPubChanges(changeSets, ["closed"])).toEqual([
+      changeSet("2026-03-01T00:00:00.000Z", {
+        type: "closed",
+        pub: pub(1, "The Lamb"),
+      }),
+    ]);
+  });
+});
+
+describe("getRecentlyClosedPubs", () => {
+  const lamb = pub(1, "The Lamb", { open_status: 0 });
+  const flask = pub(2, "The Flask");
+  const anchor = pub(3, "The Anchor", { open_status: 0 });
+
+  // Newest first, like the changelog
+  const changeSets = [
+    changeSet("2026-03-01T00:00:00.000Z", { type: "removed", pub: flask }),
+    changeSet(
+      "2026-02-01T00:00:00.000Z",
+      { type: "closed", pub: lamb },
+      { type: "reopened", pub: anchor }
+    ),
+    changeSet("2026-01-01T00:00:00.000Z", { type: "closed", pub: anchor }),
+  ];
+
+  it("lists pubs closed or removed since the date", () => {
+    expect(
+      getRecentlyClosedPubs(changeSets, new Date("2026-02-01T00:00:00.000Z"))
+    ).toEqual([flask, lamb]);
+  });
+
+  it("leaves out change sets before the date", () => {
+    expect(
+      getRecentlyClosedPubs(changeSets, new Date("2026-02-15T00:00:00.000Z"))
+    ).toEqual([flask]);
+  });
+
+  it("leaves out pubs that reopened later", () => {
+    expect(getRecentlyClosedPubs(changeSets, new Date(0))).not.toContainEqual(
+      anchor
+    );
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Pub Diff Utilities
+ * Compare two snapshots of the pubs layer and list what changed: pubs
+ * added, removed, reopened, closed, renamed and moved
+ */
+
+import { PUB_CHANGES_CONFIG } from "@/lib/constants";
+import { haversineDistance } from "@/lib/utils/coordinates";
+import type {
+  PubChange,
+  PubChangeSet,
+  PubChangeType,
+  PubFeature,
+} from "@/types/pub";
+
+// Names that differ only in case or spacing are the same name
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/\s+/g, " ").trim();
+
+const getUprn = (pub: PubFeature) =>
+  pub.properties.os_addressbase_uprn?.trim() || undefined;
+
+/**
+ * Compare one pub across two snapshots
+ */
+function comparePub(before: PubFeature, after: PubFeature): PubChange[] {
+  const changes: PubChange[] = [];
+  const wasOpen = before.properties.open_status === 1;
+  const isOpen = after.properties.open_status === 1;
+
+  if (wasOpen !== isOpen) {
+    changes.push({ type: isOpen ? "reopened" : "closed", pub: after });
+  }
+
+  if (
+    normalizeName(before.properties.name) !==
+    normalizeName(after.properties.name)
+  ) {
+    changes.push({
+      type: "renamed",
+      pub: after,
+      previousName: before.properties.name,
+    });
+  }
+
+  const distance = haversineDistance(
+    before.geometry.coordinates,
+    after.geometry.coordinates
+  );
+  if (distance >= PUB_CHANGES_CONFIG.MOVE_THRESHOLD) {
+    changes.push({
+      type: "moved",
+      pub: after,
+      previousCoordinates: before.geometry.coordinates,
+      distance,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * List the changes between two snapshots of the pubs layer
+ * Pubs are matched by objectid. A pub whose objectid changed is still
+ * matched when it keeps its UPRN, so a re-entered pub isn't reported as
+ * one pub removed and another added.
+ *
+ * @param before - Pubs in the older snapshot
+ * @param after - Pubs in the newer snapshot
+ * @returns Changes ordered by pub name
+ */
+export function diffPubs(
+  before: PubFeature[],
+  after: PubFeature[]
+): PubChange[] {
+  const beforeById = new Map(
+    before.map((pub) => [pub.properties.objectid, pub])
+  );
+  const afterIds = new Set(after.map((pub) => pub.properties.objectid));
+
+  // Old pubs whose objectid is gone, by UPRN, to find re-entered pubs
+  const removedByUprn = new Map<string, PubFeature>();
+  before.forEach((pub) => {
+    const uprn = getUprn(pub);
+    if (uprn && !afterIds.has(pub.properties.objectid)) {
+      removedByUprn.set(uprn, pub);
+    }
+  });
+
+  const changes: PubChange[] = [];
+
+  after.forEach((pub) => {
+    const uprn = getUprn(pub);
+    let previous = beforeById.get(pub.properties.objectid);
+
+    if (!previous && uprn && removedByUprn.has(uprn)) {
+      previous = removedByUprn.get(uprn);
+      removedByUprn.delete(uprn);
+      beforeById.delete(previous!.properties.objectid);
+    }
+
+    if (previous) {
+      beforeById.delete(pub.properties.objectid);
+      changes.push(...comparePub(previous, pub));
+    } else {
+      changes.push({ type: "added", pub });
+    }
+  });
+
+  // Whatever is left in the old snapshot has gone from the new one
+  beforeById.forEach((pub) => changes.push({ type: "removed", pub }));
+
+  return changes.sort((a, b) =>
+    a.pub.properties.name.localeCompare(b.pub.properties.name)
+  );
+}
+
+/**
+ * Keep the changes of the given types, dropping change sets left empty
+ */
+export function filterPubChanges(
+  changeSets: PubChangeSet[],
+  types: PubChangeType[]
+): PubChangeSet[] {
+  if (types.length === 0) return changeSets;
+
+  return changeSets
+    .map((changeSet) => ({
+      ...changeSet,
+      changes: changeSet.changes.filter(({ type }) => types.includes(type)),
+    }))
+    .filter(({ changes }) => changes.length > 0);
+}
+
+/**
+ * Pubs that closed or disappeared since a date, as they last were
+ * A pub that closed and later reopened is left out
+ *
+ * @param changeSets - Change sets, newest first
+ * @param since - Earliest change set to include
+ */
+export function getRecentlyClosedPubs(
+  changeSets: PubChangeSet[],
+  since: Date
+): PubFeature[] {
+  const closed = new Map<number, PubFeature>();
+  const seen = new Set<number>();
+
+  changeSets
+    .filter(({ to }) => new Date(to) >= since)
+    .forEach(({ changes }) =>
+      changes.forEach(({ type, pub }) => {
+        const { objectid } = pub.properties;
+        if (type === "added" || type === "reopened") {
+          seen.add(objectid);
+        } else if (
+          (type === "closed" || type === "removed") &&
+          !seen.has(objectid)
+        ) {
+          closed.set(objectid, pub);
+          seen.add(objectid);
+        }
+      })
+    );
+
+  return [...closed.values()];
+}
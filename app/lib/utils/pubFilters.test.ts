@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { pubFiltersToWhere } from "./pubFilters";
+
+const postcodeWhere = (postcode: string) =>
+  pubFiltersToWhere({ postcode }).match(/LIKE '%(.*)%'/)?.[1];
+
+describe("pubFiltersToWhere", () => {
+  it("adds the space to a whole postcode typed without one", () => {
+    expect(postcodeWhere("sw1a1aa")).toBe("SW1A 1AA");
+    expect(postcodeWhere("E18QS")).toBe("E1 8QS");
+  });
+
+  it("leaves partial postcodes alone", () => {
+    expect(postcodeWhere("SW1A1")).toBe("SW1A1");
+    expect(postcodeWhere("SW1A")).toBe("SW1A");
+    expect(postcodeWhere(" sw1a  1 ")).toBe("SW1A 1");
+  });
+
+  it("matches every pub without filters", () => {
+    expect(pubFiltersToWhere({})).toBe("1=1");
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Pub Filter Utilities
+ * Apply PubFilters to a list of pubs, carry them in a URL query string
+ * between usePubData and /api/pubs, and turn them into a London GIS query
+ */
+
+import type { PubFeature, PubFilters } from "@/types/pub";
+import { where, type WhereClause } from "./whereClause";
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+// Postcodes are typed with and without their space
+const normalizePostcode = (value: string) =>
+  value.toLowerCase().replace(/\s+/g, "");
+
+/**
+ * Keep the pubs that match every set filter
+ */
+export function filterPubs(
+  pubs: PubFeature[],
+  filters: PubFilters
+): PubFeature[] {
+  const boroughs = filters.boroughs?.map(normalize);
+  const query = filters.searchQuery ? normalize(filters.searchQuery) : "";
+  const postcode = filters.postcode ? normalizePostcode(filters.postcode) : "";
+  const ward = filters.ward ? normalize(filters.ward) : "";
+
+  return pubs.filter(({ properties }) => {
+    if (
+      boroughs?.length &&
+      !boroughs.includes(normalize(properties.borough_name))
+    ) {
+      return false;
+    }
+    if (
+      filters.openOnly !== undefined &&
+      (properties.open_status === 1) !== filters.openOnly
+    ) {
+      return false;
+    }
+    if (
+      postcode &&
+      !normalizePostcode(properties.postcode).includes(postcode)
+    ) {
+      return false;
+    }
+    if (ward && normalize(properties.ward_2022_name ?? "") !== ward) {
+      return false;
+    }
+    if (query) {
+      const { name, address1, address2, borough_name } = properties;
+      return [name, address1, address2, properties.postcode, borough_name].some(
+        (field) => field?.toLowerCase().includes(query)
+      );
+    }
+    return true;
+  });
+}
+
+/**
+ * Write filters into query parameters, leaving unset filters out
+ * Boroughs are sorted so the same filters always give the same URL
+ */
+export function pubFiltersToSearchParams(filters: PubFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  [...(filters.boroughs ?? [])]
+    .sort()
+    .forEach((borough) => params.append("borough", borough));
+  if (filters.openOnly !== undefined) {
+    params.set("openOnly", String(filters.openOnly));
+  }
+  if (filters.searchQuery) params.set("q", filters.searchQuery);
+  if (filters.postcode) params.set("postcode", filters.postcode);
+  if (filters.ward) params.set("ward", filters.ward);
+
+  return params;
+}
+
+/**
+ * Read filters back from query parameters
+ */
+export function pubFiltersFromSearchParams(
+  params: URLSearchParams
+): PubFilters {
+  const boroughs = params.getAll("borough").filter(Boolean);
+  const openOnly = params.get("openOnly");
+
+  return {
+    boroughs: boroughs.length > 0 ? boroughs : undefined,
+    openOnly:
+      openOnly === "true" ? true : openOnly === "false" ? false : undefined,
+    searchQuery: params.get("q") || undefined,
+    postcode: params.get("postcode") || undefined,
+    ward: params.get("ward") || undefined,
+  };
+}
+
+// A whole postcode typed without its space, e.g. SW1A1AA
+const COMPACT_POSTCODE = /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/;
+
+/**
+ * Write a postcode the way the London GIS layer does
+ * A whole postcode typed without its space gets one, so it still matches.
+ * Partial postcodes are left alone, as there's no telling where the space
+ * would go.
+ */
+function formatPostcode(value: string): string {
+  const postcode = value.toUpperCase().replace(/\s+/g, " ").trim();
+  return COMPACT_POSTCODE.test(postcode)
+    ? `${postcode.slice(0, -3)} ${postcode.slice(-3)}`
+    : postcode;
+}
+
+/**
+ * Turn filters into a `where` clause for the London GIS layer
+ * Matches the same pubs as filterPubs, ignoring case
+ */
+export function pubFiltersToWhere(filters: PubFilters): WhereClause {
+  const clauses: WhereClause[] = [];
+  const ignoreCase = { ignoreCase: true };
+
+  if (filters.boroughs?.length) {
+    clauses.push(
+      where.in(
+        "borough_name",
+        filters.boroughs.map((borough) => borough.trim()),
+        ignoreCase
+      )
+    );
+  }
+  if (filters.openOnly === true) {
+    clauses.push(where.eq("open_status", 1));
+  } else if (filters.openOnly === false) {
+    clauses.push(
+      where.or(where.ne("open_status", 1), where.isNull("open_status"))
+    );
+  }
+  if (filters.postcode?.trim()) {
+    clauses.push(
+      where.contains("postcode", formatPostcode(filters.postcode), ignoreCase)
+    );
+  }
+  if (filters.ward?.trim()) {
+    clauses.push(where.eq("ward_2022_name", filters.ward.trim(), ignoreCase));
+  }
+  if (filters.searchQuery?.trim()) {
+    const query = filters.searchQuery.trim();
+    clauses.push(
+      where.or(
+        ...(
+          ["name", "address1", "address2", "postcode", "borough_name"] as const
+        ).map((field) => where.contains(field, query, ignoreCase))
+      )
+    );
+  }
+
+  return where.and(...clauses);
+}
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import { haversineDistance } from "./coordinates";
+import { SpatialIndex } from "./spatialIndex";
+
+type Point = { id: number; position: [number, number] };
+
+const ORIGIN: [number, number] = [-0.1276, 51.5074];
+const METERS_PER_DEGREE = 111320;
+
+/** A point offset from the origin by meters east and north */
+const offset = (east: number, north: number): [number, number] => [
+  ORIGIN[0] +
+    east / (METERS_PER_DEGREE * Math.cos((ORIGIN[1] * Math.PI) / 180)),
+  ORIGIN[1] + north / METERS_PER_DEGREE,
+];
+
+const buildIndex = (positions: [number, number][], cellSize?: number) =>
+  new SpatialIndex<Point>(
+    positions.map((position, id) => ({ id, position })),
+    (point) => point.position,
+    cellSize
+  );
+
+/** Deterministic pseudo-random numbers, so failures can be reproduced */
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+/** Points scattered over a few kilometres of central London */
+function scatter(count: number, seed: number): [number, number][] {
+  const next = random(seed);
+  return Array.from({ length: count }, () =>
+    offset((next() - 0.5) * 4000, (next() - 0.5) * 4000)
+  );
+}
+
+describe("SpatialIndex", () => {
+  describe("with no items", () => {
+    const index = buildIndex([]);
+
+    it("finds nothing", () => {
+      expect(index.size).toBe(0);
+      expect(index.withinRadius(ORIGIN, 1000)).toEqual([]);
+      expect(index.nearest(ORIGIN, 5)).toEqual([]);
+      expect(
+        index.withinBounds([offset(-1000, -1000), offset(1000, 1000)])
+      ).toEqual([]);
+      expect(index.nearPolyline([ORIGIN, offset(1000, 0)], 500)).toEqual([]);
+    });
+  });
+
+  describe("withinRadius", () => {
+    it("returns the items within the radius, closest first", () => {
+      const index = buildIndex([
+        offset(300, 0),
+        offset(0, 100),
+        offset(-600, 0),
+        offset(0, 0),
+      ]);
+
+      const matches = index.withinRadius(ORIGIN, 400);
+
+      expect(matches.map(({ item }) => item.id)).toEqual([3, 1, 0]);
+      expect(matches[1].distance).toBeCloseTo(100, 0);
+    });
+
+    it("finds items in neighbouring cells across a cell boundary", () => {
+      // 100 m cells, so these points are several cells from the query
+      const index = buildIndex([offset(-250, 0), offset(0, 290)], 100);
+
+      expect(index.withinRadius(ORIGIN, 300)).toHaveLength(2);
+    });
+
+    it("includes an item exactly on the radius", () => {
+      const index = buildIndex([offset(500, 0)]);
+      const { distance } = index.withinRadius(ORIGIN, 1000)[0];
+
+      expect(index.withinRadius(ORIGIN, distance)).toHaveLength(1);
+    });
+
+    it("skips items the filter rejects", () => {
+      const index = buildIndex([offset(10, 0), offset(20, 0)]);
+
+      expect(
+        index
+          .withinRadius(ORIGIN, 100, { filter: ({ id }) => id === 1 })
+          .map(({ item }) => item.id)
+      ).toEqual([1]);
+    });
+
+    it("matches measuring every item", () => {
+      const positions = scatter(500, 1);
+      const index = buildIndex(positions, 150);
+      const center = offset(120, -80);
+
+      const expected = positions
+        .map((position, id) => ({ id, d: haversineDistance(center, position) }))
+        .filter(({ d }) => d <= 700)
+        .map(({ id }) => id)
+        .sort();
+
+      expect(
+        index
+          .withinRadius(center, 700)
+          .map(({ item }) => item.id)
+          .sort()
+      ).toEqual(expected);
+    });
+  });
+
+  describe("nearest", () => {
+    const positions = scatter(400, 2);
+    const index = buildIndex(positions, 200);
+
+    it("returns the k closest items, closest first", () => {
+      const center = offset(-300, 450);
+      const expected = positions
+        .map((position, id) => ({ id, d: haversineDistance(center, position) }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, 10)
+        .map(({ id }) => id);
+
+      expect(index.nearest(center, 10).map(({ item }) => item.id)).toEqual(
+        expected
+      );
+    });
+
+    it("returns every item when asked for more than there are", () => {
+      expect(index.nearest(ORIGIN, 1000)).toHaveLength(400);
+    });
+
+    it("returns nothing for a count of zero", () => {
+      expect(index.nearest(ORIGIN, 0)).toEqual([]);
+    });
+
+    it("leaves out items beyond maxDistance", () => {
+      const matches = index.nearest(ORIGIN, 1000, { maxDistance: 500 });
+
+      expect(matches.length).toBeGreaterThan(0);
+      expect(matches.every(({ distance }) => distance <= 500)).toBe(true);
+      expect(matches).toHaveLength(index.withinRadius(ORIGIN, 500).length);
+    });
+
+    it("finds items from a query far outside the indexed area", () => {
+      const far = buildIndex([offset(0, 0), offset(100, 0)], 50);
+
+      expect(
+        far.nearest(offset(20000, 0), 1).map(({ item }) => item.id)
+      ).toEqual([1]);
+    });
+  });
+
+  describe("withinBounds", () => {
+    it("includes items on the edges and leaves out those just outside", () => {
+      const index = buildIndex(
+        [offset(0, 0), offset(1000, 1000), offset(1001, 0), offset(500, 500)],
+        100
+      );
+
+      expect(
+        index
+          .withinBounds([offset(0, 0), offset(1000, 1000)])
+          .map(({ id }) => id)
+          .sort()
+      ).toEqual([0, 1, 3]);
+    });
+
+    it("applies the filter", () => {
+      const index = buildIndex([offset(10, 10), offset(20, 20)]);
+
+      expect(
+        index.withinBounds([offset(0, 0), offset(50, 50)], {
+          filter: ({ id }) => id === 0,
+        })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("nearPolyline", () => {
+    const line: [number, number][] = [offset(0, 0), offset(1000, 0)];
+
+    it("returns items near the line in order along it", () => {
+      const index = buildIndex(
+        [offset(800, 50), offset(200, -40), offset(500, 300)],
+        100
+      );
+
+      const matches = index.nearPolyline(line, 100);
+
+      expect(matches.map(({ item }) => item.id)).toEqual([1, 0]);
+      expect(matches[0].position).toBeCloseTo(0.2, 2);
+      expect(matches[0].distance).toBeCloseTo(40, 0);
+      expect(matches[1].position).toBeCloseTo(0.8, 2);
+    });
+
+    it("measures past the ends to the end points", () => {
+      const index = buildIndex([offset(-50, 0), offset(1200, 0)]);
+      const matches = index.nearPolyline(line, 100);
+
+      expect(matches.map(({ item }) => item.id)).toEqual([0]);
+      expect(matches[0].position).toBe(0);
+      expect(matches[0].distance).toBeCloseTo(50, 0);
+    });
+
+    it("keeps the closest segment for an item near a bend", () => {
+      const bend: [number, number][] = [
+        offset(0, 0),
+        offset(1000, 0),
+        offset(1000, 1000),
+      ];
+      const index = buildIndex([offset(990, 500)]);
+      const [match] = index.nearPolyline(bend, 100);
+
+      expect(match.distance).toBeCloseTo(10, 0);
+      expect(match.position).toBeCloseTo(0.75, 2);
+    });
+
+    it("treats a single point as a radius search", () => {
+      const index = buildIndex([offset(30, 0)]);
+
+      expect(index.nearPolyline([ORIGIN], 50)).toEqual([
+        expect.objectContaining({ position: 0 }),
+      ]);
+    });
+
+    it("returns nothing for an empty line", () => {
+      expect(buildIndex([ORIGIN]).nearPolyline([], 100)).toEqual([]);
+    });
+  });
+});
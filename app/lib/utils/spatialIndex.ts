@@ -0,0 +1,364 @@
+/**
+ * Spatial Index
+ * Grid index for fast proximity queries over a fixed set of points
+ */
+
+import { haversineDistance } from "./coordinates";
+
+const METERS_PER_DEGREE = 111320; // Length of a degree of latitude (meters)
+
+// The grid uses a flat projection around the data's mean latitude, so cell
+// searches reach slightly further than asked to cover the distortion
+const SEARCH_MARGIN = 1.05;
+
+/**
+ * An item found by a proximity query
+ */
+export interface SpatialMatch<T> {
+  item: T;
+  /** Distance from the query in meters */
+  distance: number;
+}
+
+/**
+ * An item found near a polyline
+ */
+export interface PolylineMatch<T> extends SpatialMatch<T> {
+  /** Where the closest point lies along the polyline by length (0 = start, 1 = end) */
+  position: number;
+}
+
+export interface SpatialQueryOptions<T> {
+  /** Only return items that pass this check */
+  filter?: (item: T) => boolean;
+}
+
+export interface NearestQueryOptions<T> extends SpatialQueryOptions<T> {
+  /** Ignore items further than this from the query (meters) */
+  maxDistance?: number;
+}
+
+/**
+ * Grid index over [lng, lat] points
+ * Build it once for a data set, then query it as often as needed without
+ * measuring the distance to every point.
+ *
+ * @example
+ * const index = new SpatialIndex(pubs, (pub) => pub.geometry.coordinates);
+ * index.nearest(midPoint, 10, { maxDistance: 1500 });
+ */
+export class SpatialIndex<T> {
+  /** Every indexed item, in the order given */
+  readonly items: T[];
+
+  private readonly positions: [number, number][];
+  private readonly cells = new Map<string, number[]>();
+  private readonly cellSize: number;
+  private readonly lngScale: number;
+  private minCell: [number, number] = [0, 0];
+  private maxCell: [number, number] = [-1, -1];
+
+  /**
+   * @param items - Items to index
+   * @param getPosition - Reads an item's [lng, lat] position
+   * @param cellSizeMeters - Width of a grid cell - roughly the typical query radius
+   */
+  constructor(
+    items: T[],
+    getPosition: (item: T) => [number, number],
+    cellSizeMeters: number = 250
+  ) {
+    this.items = items;
+    this.positions = items.map(getPosition);
+    this.cellSize = cellSizeMeters;
+
+    const meanLat =
+      this.positions.reduce((sum, [, lat]) => sum + lat, 0) /
+      Math.max(1, this.positions.length);
+    this.lngScale = METERS_PER_DEGREE * Math.cos((meanLat * Math.PI) / 180);
+
+    this.positions.forEach((position, index) => {
+      const [cx, cy] = this.getCell(position);
+      const key = `${cx}:${cy}`;
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        this.cells.set(key, [index]);
+      }
+
+      if (index === 0) {
+        this.minCell = [cx, cy];
+        this.maxCell = [cx, cy];
+      } else {
+        this.minCell = [
+          Math.min(this.minCell[0], cx),
+          Math.min(this.minCell[1], cy),
+        ];
+        this.maxCell = [
+          Math.max(this.maxCell[0], cx),
+          Math.max(this.maxCell[1], cy),
+        ];
+      }
+    });
+  }
+
+  /** Number of indexed items */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Find every item within a distance of a point, closest first
+   * @param center - Query point [lng, lat]
+   * @param radiusMeters - Search radius in meters
+   */
+  withinRadius(
+    center: [number, number],
+    radiusMeters: number,
+    options: SpatialQueryOptions<T> = {}
+  ): SpatialMatch<T>[] {
+    const matches: SpatialMatch<T>[] = [];
+    const [x, y] = this.project(center);
+    const reach = radiusMeters * SEARCH_MARGIN;
+
+    this.forEachInCells(
+      this.getCell([x - reach, y - reach], true),
+      this.getCell([x + reach, y + reach], true),
+      (index) => {
+        if (options.filter && !options.filter(this.items[index])) return;
+
+        const distance = haversineDistance(center, this.positions[index]);
+        if (distance <= radiusMeters) {
+          matches.push({ item: this.items[index], distance });
+        }
+      }
+    );
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Find the k items closest to a point, closest first
+   * Searches outwards ring by ring, so only nearby cells are visited
+   *
+   * @param center - Query point [lng, lat]
+   * @param count - Maximum number of items to return
+   */
+  nearest(
+    center: [number, number],
+    count: number,
+    options: NearestQueryOptions<T> = {}
+  ): SpatialMatch<T>[] {
+    const { maxDistance = Infinity, filter } = options;
+    if (count <= 0 || this.size === 0) return [];
+
+    const [cx, cy] = this.getCell(center);
+    const maxRing = Math.max(
+      Math.abs(cx - this.minCell[0]),
+      Math.abs(cx - this.maxCell[0]),
+      Math.abs(cy - this.minCell[1]),
+      Math.abs(cy - this.maxCell[1])
+    );
+    let matches: SpatialMatch<T>[] = [];
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Everything outside the rings searched so far is at least this far away
+      const searchedDistance = ((ring - 1) * this.cellSize) / SEARCH_MARGIN;
+
+      if (searchedDistance > maxDistance) break;
+      if (
+        matches.length >= count &&
+        matches[count - 1].distance <= searchedDistance
+      ) {
+        break;
+      }
+
+      this.forEachInRing(cx, cy, ring, (index) => {
+        if (filter && !filter(this.items[index])) return;
+
+        const distance = haversineDistance(center, this.positions[index]);
+        if (distance <= maxDistance) {
+          matches.push({ item: this.items[index], distance });
+        }
+      });
+
+      matches = matches.sort((a, b) => a.distance - b.distance);
+    }
+
+    return matches.slice(0, count);
+  }
+
+  /**
+   * Find every item inside a bounding box
+   * @param bounds - [[west, south], [east, north]] in degrees
+   */
+  withinBounds(
+    bounds: [[number, number], [number, number]],
+    options: SpatialQueryOptions<T> = {}
+  ): T[] {
+    const [[west, south], [east, north]] = bounds;
+    const matches: T[] = [];
+
+    this.forEachInCells(
+      this.getCell([west, south]),
+      this.getCell([east, north]),
+      (index) => {
+        const [lng, lat] = this.positions[index];
+        if (lng < west || lng > east || lat < south || lat > north) return;
+        if (options.filter && !options.filter(this.items[index])) return;
+
+        matches.push(this.items[index]);
+      }
+    );
+
+    return matches;
+  }
+
+  /**
+   * Find every item within a distance of a polyline, in order along it
+   * @param polyline - Line as [lng, lat] coordinates
+   * @param distanceMeters - Maximum distance from the line in meters
+   */
+  nearPolyline(
+    polyline: [number, number][],
+    distanceMeters: number,
+    options: SpatialQueryOptions<T> = {}
+  ): PolylineMatch<T>[] {
+    if (polyline.length === 0) return [];
+
+    if (polyline.length === 1) {
+      return this.withinRadius(polyline[0], distanceMeters, options).map(
+        (match) => ({ ...match, position: 0 })
+      );
+    }
+
+    const points = polyline.map((coordinate) => this.project(coordinate));
+    const segmentLengths = points
+      .slice(1)
+      .map(([x, y], i) => Math.hypot(x - points[i][0], y - points[i][1]));
+    const totalLength = segmentLengths.reduce((sum, length) => sum + length, 0);
+    const reach = distanceMeters * SEARCH_MARGIN;
+
+    const best = new Map<number, PolylineMatch<T>>();
+    let lengthBefore = 0;
+
+    segmentLengths.forEach((segmentLength, i) => {
+      const [ax, ay] = points[i];
+      const [bx, by] = points[i + 1];
+
+      this.forEachInCells(
+        this.getCell(
+          [Math.min(ax, bx) - reach, Math.min(ay, by) - reach],
+          true
+        ),
+        this.getCell(
+          [Math.max(ax, bx) + reach, Math.max(ay, by) + reach],
+          true
+        ),
+        (index) => {
+          if (options.filter && !options.filter(this.items[index])) return;
+
+          // Closest point on the segment, as a fraction of its length
+          const [px, py] = this.project(this.positions[index]);
+          const t =
+            segmentLength > 0
+              ? Math.max(
+                  0,
+                  Math.min(
+                    1,
+                    ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) /
+                      (segmentLength * segmentLength)
+                  )
+                )
+              : 0;
+          const distance = Math.hypot(
+            px - (ax + (bx - ax) * t),
+            py - (ay + (by - ay) * t)
+          );
+          if (distance > distanceMeters) return;
+
+          const previous = best.get(index);
+          if (previous && previous.distance <= distance) return;
+
+          best.set(index, {
+            item: this.items[index],
+            distance,
+            position:
+              totalLength > 0
+                ? (lengthBefore + segmentLength * t) / totalLength
+                : 0,
+          });
+        }
+      );
+
+      lengthBefore += segmentLength;
+    });
+
+    return [...best.values()].sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Project a [lng, lat] coordinate onto the flat grid plane (meters)
+   */
+  private project([lng, lat]: [number, number]): [number, number] {
+    return [lng * this.lngScale, lat * METERS_PER_DEGREE];
+  }
+
+  /**
+   * Grid cell containing a coordinate, or a point already projected to meters
+   */
+  private getCell(
+    point: [number, number],
+    isProjected: boolean = false
+  ): [number, number] {
+    const [x, y] = isProjected ? point : this.project(point);
+    return [Math.floor(x / this.cellSize), Math.floor(y / this.cellSize)];
+  }
+
+  /**
+   * Visit every indexed point in a rectangle of cells
+   */
+  private forEachInCells(
+    [minX, minY]: [number, number],
+    [maxX, maxY]: [number, number],
+    callback: (index: number) => void
+  ) {
+    // Clamp to the populated part of the grid
+    const fromX = Math.max(minX, this.minCell[0]);
+    const toX = Math.min(maxX, this.maxCell[0]);
+    const fromY = Math.max(minY, this.minCell[1]);
+    const toY = Math.min(maxY, this.maxCell[1]);
+
+    for (let cx = fromX; cx <= toX; cx++) {
+      for (let cy = fromY; cy <= toY; cy++) {
+        this.cells.get(`${cx}:${cy}`)?.forEach(callback);
+      }
+    }
+  }
+
+  /**
+   * Visit every indexed point in the square ring of cells at a given
+   * distance (in cells) from a centre cell
+   */
+  private forEachInRing(
+    cx: number,
+    cy: number,
+    ring: number,
+    callback: (index: number) => void
+  ) {
+    if (ring === 0) {
+      this.cells.get(`${cx}:${cy}`)?.forEach(callback);
+      return;
+    }
+
+    for (let x = cx - ring; x <= cx + ring; x++) {
+      this.cells.get(`${x}:${cy - ring}`)?.forEach(callback);
+      this.cells.get(`${x}:${cy + ring}`)?.forEach(callback);
+    }
+    for (let y = cy - ring + 1; y <= cy + ring - 1; y++) {
+      this.cells.get(`${cx - ring}:${y}`)?.forEach(callback);
+      this.cells.get(`${cx + ring}:${y}`)?.forEach(callback);
+    }
+  }
+}
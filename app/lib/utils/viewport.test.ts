@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  getViewportKey,
+  parseViewportKey,
+  snapToViewportGrid,
+} from "./viewport";
+
+describe("snapToViewportGrid", () => {
+  it("snaps down or up to the grid", () => {
+    expect(snapToViewportGrid(-0.1234, Math.floor)).toBe(-0.13);
+    expect(snapToViewportGrid(-0.1234, Math.ceil)).toBe(-0.12);
+    expect(snapToViewportGrid(51.5074, Math.floor)).toBe(51.5);
+    expect(snapToViewportGrid(51.5074, Math.ceil)).toBe(51.51);
+  });
+
+  it("leaves no floating point noise", () => {
+    // 5105 * 0.01 is 51.050000000000004 without rounding
+    expect(snapToViewportGrid(51.05, Math.round)).toBe(51.05);
+  });
+});
+
+describe("getViewportKey", () => {
+  const bounds = {
+    west: -0.1234,
+    south: 51.5074,
+    east: -0.0891,
+    north: 51.5212,
+  };
+
+  it("snaps the viewport outward", () => {
+    expect(getViewportKey(bounds, 13.7)).toBe("-0.13,51.5,-0.08,51.53,13");
+  });
+
+  it("gives small pans the same key", () => {
+    const panned = {
+      west: bounds.west + 0.002,
+      south: bounds.south + 0.001,
+      east: bounds.east + 0.002,
+      north: bounds.north + 0.001,
+    };
+
+    expect(getViewportKey(panned, 13.2)).toBe(getViewportKey(bounds, 13.7));
+  });
+});
+
+describe("parseViewportKey", () => {
+  it("reads a key back", () => {
+    expect(parseViewportKey("-0.13,51.5,-0.08,51.53,13")).toEqual({
+      bounds: { west: -0.13, south: 51.5, east: -0.08, north: 51.53 },
+      zoom: 13,
+    });
+  });
+
+  it("has no viewport before the map loads", () => {
+    expect(parseViewportKey("")).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Viewport Utilities
+ * Snap the visible map area to a grid and carry it as a string key, so
+ * useViewportPubs can compare viewports by value and reuse queries
+ */
+
+import { VIEWPORT_CONFIG } from "@/lib/constants";
+import type { LondonMapBounds } from "@/types/map";
+
+/**
+ * A viewport read back from its key
+ */
+export interface Viewport {
+  bounds: LondonMapBounds;
+  zoom: number;
+}
+
+/**
+ * Snap a coordinate to the viewport grid
+ * Rounded so floating point noise doesn't make new query keys
+ *
+ * @param round - Math.floor for the west and south edges, Math.ceil for the
+ * east and north ones, so the snapped area covers the view
+ */
+export const snapToViewportGrid = (
+  value: number,
+  round: (value: number) => number
+) =>
+  Number(
+    (
+      round(value / VIEWPORT_CONFIG.GRID_SIZE) * VIEWPORT_CONFIG.GRID_SIZE
+    ).toFixed(6)
+  );
+
+/**
+ * Write a viewport as a key, snapped outward to the grid and whole zoom levels
+ */
+export function getViewportKey(bounds: LondonMapBounds, zoom: number): string {
+  return [
+    snapToViewportGrid(bounds.west, Math.floor),
+    snapToViewportGrid(bounds.south, Math.floor),
+    snapToViewportGrid(bounds.east, Math.ceil),
+    snapToViewportGrid(bounds.north, Math.ceil),
+    Math.floor(zoom),
+  ].join(",");
+}
+
+/**
+ * Read a viewport key back
+ *
+ * @returns The viewport, or null for the empty key used before the map loads
+ */
+export function parseViewportKey(key: string): Viewport | null {
+  if (!key) return null;
+
+  const [west, south, east, north, zoom] = key.split(",").map(Number);
+  return { bounds: { west, south, east, north }, zoom };
+}
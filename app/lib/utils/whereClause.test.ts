@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { PubStringField } from "./whereClause";
+import { where, WhereClauseError } from "./whereClause";
+
+describe("where", () => {
+  it("doubles single quotes in strings", () => {
+    expect(where.eq("name", "The King's Head")).toBe(
+      "name = 'The King''s Head'"
+    );
+  });
+
+  it("keeps injected SQL inside the string", () => {
+    expect(where.eq("borough_name", "x' OR '1'='1")).toBe(
+      "borough_name = 'x'' OR ''1''=''1'"
+    );
+  });
+
+  it("compares upper case text when ignoring case", () => {
+    expect(where.eq("ward_2022_name", "Soho", { ignoreCase: true })).toBe(
+      "UPPER(ward_2022_name) = 'SOHO'"
+    );
+  });
+
+  it("matches % and _ literally in contains", () => {
+    expect(where.contains("name", "100%_Ale")).toBe(
+      "name LIKE '%100\\%\\_Ale%' ESCAPE '\\'"
+    );
+  });
+
+  it("escapes the escape character in contains", () => {
+    expect(where.contains("name", "a\\b")).toBe(
+      "name LIKE '%a\\\\b%' ESCAPE '\\'"
+    );
+  });
+
+  it("escapes quotes in contains", () => {
+    expect(where.contains("name", "O'Neill's", { ignoreCase: true })).toBe(
+      "UPPER(name) LIKE '%O''NEILL''S%' ESCAPE '\\'"
+    );
+  });
+
+  it("leaves like patterns as written, apart from quotes", () => {
+    expect(where.like("postcode", "SW1_ 'A%")).toBe(
+      "postcode LIKE 'SW1_ ''A%'"
+    );
+  });
+
+  it("quotes every value in a list", () => {
+    expect(where.in("borough_name", ["Camden", "King's Cross"])).toBe(
+      "borough_name IN ('Camden', 'King''s Cross')"
+    );
+  });
+
+  it("matches nothing for an empty list", () => {
+    expect(where.in("borough_name", [])).toBe("1=0");
+  });
+
+  it("writes numbers unquoted", () => {
+    expect(where.gte("open_status", 1)).toBe("open_status >= 1");
+  });
+
+  it("rejects numbers that aren't finite", () => {
+    expect(() => where.eq("open_status", NaN)).toThrow(WhereClauseError);
+    expect(() => where.lt("open_status", Infinity)).toThrow(WhereClauseError);
+  });
+
+  it("rejects field names that aren't plain identifiers", () => {
+    const field = "name = name OR 1" as PubStringField;
+
+    expect(() => where.eq(field, "x")).toThrow(WhereClauseError);
+  });
+
+  it("joins clauses, leaving out the joiner for one clause", () => {
+    const open = where.eq("open_status", 1);
+    const camden = where.eq("borough_name", "Camden");
+
+    expect(where.and()).toBe("1=1");
+    expect(where.or()).toBe("1=0");
+    expect(where.and(open)).toBe(open);
+    expect(where.or(open, where.not(camden))).toBe(
+      "(open_status = 1 OR NOT (borough_name = 'Camden'))"
+    );
+  });
+});
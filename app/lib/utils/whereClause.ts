@@ -0,0 +1,185 @@
+/**
+ * Where Clause Builder
+ * Typed `where` clauses for London GIS (ArcGIS) queries on Pub fields.
+ * Values are always escaped, so user input can't change the query.
+ *
+ * @example
+ * where.and(
+ *   where.in("borough_name", ["Camden", "Hackney"], { ignoreCase: true }),
+ *   where.eq("open_status", 1)
+ * )
+ * // (UPPER(borough_name) IN ('CAMDEN', 'HACKNEY') AND open_status = 1)
+ */
+
+import type { Pub } from "@/types/pub";
+
+/**
+ * A clause built by `where`, so plain strings can't be passed as one
+ */
+export type WhereClause = string & { readonly __brand: "WhereClause" };
+
+type FieldsOfType<T> = {
+  [K in keyof Pub]-?: NonNullable<Pub[K]> extends T ? K : never;
+}[keyof Pub];
+
+/** Pub fields holding text */
+export type PubStringField = FieldsOfType<string>;
+
+/** Pub fields holding numbers */
+export type PubNumberField = FieldsOfType<number>;
+
+type PubField = PubStringField | PubNumberField;
+
+interface StringOptions {
+  /** Compare without regard to case */
+  ignoreCase?: boolean;
+}
+
+/**
+ * Error for a clause that can't be built safely
+ */
+export class WhereClauseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhereClauseError";
+  }
+}
+
+const clause = (sql: string) => sql as WhereClause;
+
+/**
+ * Check a field name at runtime too, for values that slipped past the types
+ */
+function fieldName(field: PubField, ignoreCase = false): string {
+  if (!/^[a-z][a-z0-9_]*$/.test(field)) {
+    throw new WhereClauseError(`Invalid field: ${field}`);
+  }
+  return ignoreCase ? `UPPER(${field})` : field;
+}
+
+function quoteString(value: string, ignoreCase = false): string {
+  const text = ignoreCase ? value.toUpperCase() : value;
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new WhereClauseError(`Invalid number: ${value}`);
+  }
+  return String(value);
+}
+
+function formatValue(
+  value: string | number,
+  { ignoreCase }: StringOptions = {}
+): string {
+  return typeof value === "number"
+    ? formatNumber(value)
+    : quoteString(value, ignoreCase);
+}
+
+type Comparison = "=" | "<>" | ">" | ">=" | "<" | "<=";
+
+function compare<K extends PubField>(
+  operator: Comparison,
+  field: K,
+  value: NonNullable<Pub[K]>,
+  options: StringOptions = {}
+): WhereClause {
+  const ignoreCase = options.ignoreCase && typeof value === "string";
+  return clause(
+    `${fieldName(field, ignoreCase)} ${operator} ${formatValue(value, options)}`
+  );
+}
+
+/**
+ * Join clauses, leaving out the joiner when there is only one
+ */
+function join(operator: "AND" | "OR", clauses: WhereClause[]): WhereClause {
+  if (clauses.length === 0) {
+    return operator === "AND" ? where.all() : where.none();
+  }
+  if (clauses.length === 1) return clauses[0];
+  return clause(`(${clauses.join(` ${operator} `)})`);
+}
+
+/**
+ * Builders for each kind of condition
+ */
+export const where = {
+  /** Matches every pub */
+  all: () => clause("1=1"),
+
+  /** Matches no pub */
+  none: () => clause("1=0"),
+
+  eq: <K extends PubField>(
+    field: K,
+    value: NonNullable<Pub[K]>,
+    options?: StringOptions
+  ) => compare("=", field, value, options),
+
+  ne: <K extends PubField>(
+    field: K,
+    value: NonNullable<Pub[K]>,
+    options?: StringOptions
+  ) => compare("<>", field, value, options),
+
+  gt: (field: PubNumberField, value: number) => compare(">", field, value),
+  gte: (field: PubNumberField, value: number) => compare(">=", field, value),
+  lt: (field: PubNumberField, value: number) => compare("<", field, value),
+  lte: (field: PubNumberField, value: number) => compare("<=", field, value),
+
+  /** Field is one of the values; an empty list matches nothing */
+  in: <K extends PubField>(
+    field: K,
+    values: NonNullable<Pub[K]>[],
+    options: StringOptions = {}
+  ): WhereClause => {
+    if (values.length === 0) return where.none();
+
+    const ignoreCase =
+      options.ignoreCase && values.every((value) => typeof value === "string");
+    return clause(
+      `${fieldName(field, ignoreCase)} IN (${values
+        .map((value) => formatValue(value, options))
+        .join(", ")})`
+    );
+  },
+
+  /**
+   * Field matches a LIKE pattern, where % is any text and _ any character
+   * Use `contains` to match user input literally
+   */
+  like: (
+    field: PubStringField,
+    pattern: string,
+    { ignoreCase }: StringOptions = {}
+  ) =>
+    clause(
+      `${fieldName(field, ignoreCase)} LIKE ${quoteString(pattern, ignoreCase)}`
+    ),
+
+  /** Field contains the text, with any % and _ in it matched literally */
+  contains: (
+    field: PubStringField,
+    text: string,
+    { ignoreCase }: StringOptions = {}
+  ) =>
+    clause(
+      `${fieldName(field, ignoreCase)} LIKE ${quoteString(
+        `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`,
+        ignoreCase
+      )} ESCAPE '\\'`
+    ),
+
+  isNull: (field: PubField) => clause(`${fieldName(field)} IS NULL`),
+
+  not: (condition: WhereClause) => clause(`NOT (${condition})`),
+
+  /** Every clause holds; no clauses match every pub */
+  and: (...clauses: WhereClause[]) => join("AND", clauses),
+
+  /** Any clause holds; no clauses match no pub */
+  or: (...clauses: WhereClause[]) => join("OR", clauses),
+};
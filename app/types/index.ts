@@ -6,3 +6,5 @@
 export * from "./pub";
 export * from "./map";
 export * from "./routes";
+export * from "./routing";
+export * from "./meetup";
@@ -86,108 +86,3 @@ export interface ClusterConfig {
   /** Minimum number of points to form a cluster */
   clusterMinPoints?: number;
 }
-
-/**
- * Navigation/Directions types
- * These are custom types for our app's navigation features using Mapbox Directions API
- */
-
-/**
- * Travel mode for directions
- */
-export type TravelMode = 'driving' | 'walking' | 'cycling' | 'driving-traffic';
-
-/**
- * Waypoint for directions
- */
-export interface Waypoint {
-  longitude: number;
-  latitude: number;
-  name?: string;
-}
-
-/**
- * Route step/instruction
- */
-export interface RouteStep {
-  /** Distance in meters */
-  distance: number;
-  
-  /** Duration in seconds */
-  duration: number;
-  
-  /** Instruction text */
-  instruction: string;
-  
-  /** Maneuver type */
-  maneuver?: string;
-  
-  /** Street/road name */
-  name?: string;
-  
-  /** Coordinate of the step [lng, lat] */
-  location: [number, number];
-}
-
-/**
- * Route leg (segment between waypoints)
- */
-export interface RouteLeg {
-  /** Distance in meters */
-  distance: number;
-  
-  /** Duration in seconds */
-  duration: number;
-  
-  /** Array of steps in this leg */
-  steps: RouteStep[];
-  
-  /** Summary text */
-  summary?: string;
-}
-
-/**
- * Complete route information from Mapbox Directions API
- */
-export interface Route {
-  /** Total distance in meters */
-  distance: number;
-  
-  /** Total duration in seconds */
-  duration: number;
-  
-  /** Route geometry as GeoJSON LineString */
-  geometry: {
-    type: 'LineString';
-    coordinates: Array<[number, number]>;
-  };
-  
-  /** Array of route legs */
-  legs: RouteLeg[];
-  
-  /** Travel mode used */
-  mode: TravelMode;
-  
-  /** Starting waypoint */
-  origin: Waypoint;
-  
-  /** Ending waypoint */
-  destination: Waypoint;
-}
-
-/**
- * Directions API response
- */
-export interface DirectionsResponse {
-  /** Array of possible routes */
-  routes: Route[];
-  
-  /** Array of waypoints */
-  waypoints: Waypoint[];
-  
-  /** Response code */
-  code: string;
-  
-  /** Error message if any */
-  message?: string;
-}
@@ -0,0 +1,161 @@
+/**
+ * Meetup Types
+ * TypeScript interfaces for group meetup searches and pub recommendations
+ */
+
+import type { PubFeature } from "./pub";
+import type { TransportMode } from "./routes";
+import type { RouteStep } from "./routing";
+
+/**
+ * A single person taking part in a meetup search
+ */
+export interface MeetupParticipant {
+  /** Stable client-side identifier (used as a React key) */
+  id: string;
+
+  /** Selected starting location [lng, lat] */
+  point?: [number, number];
+
+  /** How this participant travels */
+  mode: TransportMode;
+
+  /** Share of the travel this participant is happy to take on (1 = equal) */
+  weight: number;
+}
+
+/**
+ * How fairly a meeting place shares out the group's journey times
+ */
+export interface FairnessScore {
+  /** Longest journey of the group in seconds (minimax) */
+  maxTime: number;
+
+  /** Difference between the longest and shortest journeys in seconds */
+  timeDifference: number;
+
+  /** Sum of every participant's journey in seconds */
+  totalTime: number;
+
+  /**
+   * Weighted combination of the above - lower is fairer
+   * Each journey is divided by its participant's travel weight first, so
+   * someone happy to travel further is not counted as treated unfairly
+   */
+  score: number;
+}
+
+/**
+ * Where a pub lies along the group's routes to the hub
+ */
+export interface CorridorPlacement {
+  /** Participant whose route passes the pub */
+  participant: number;
+
+  /** Distance from the route in meters */
+  distance: number;
+
+  /**
+   * How far along the journey from the first participant to the last, via
+   * the hub, the pub is by time (0 = first participant's start, 1 = last's)
+   */
+  position: number;
+
+  /**
+   * How evenly the journeys are shared, from 1 when everyone travels equally
+   * long (after travel weights) to 0 on someone's doorstep
+   */
+  centrality: number;
+}
+
+/**
+ * A pub recommended for a meetup, scored against every participant's journey
+ */
+export interface RecommendedPub {
+  /** The recommended pub */
+  pub: PubFeature;
+
+  /** Journey time for each participant in seconds (same order as the participants) */
+  journeyTimes: number[];
+
+  /** Fairness of the journey times - used to order recommendations */
+  fairness: FairnessScore;
+
+  /**
+   * Where the journey times came from
+   * - estimate: scaled from routed journeys to the hub
+   * - matrix: routed by the route matrix
+   * - crow: straight-line distance at an assumed speed
+   * - corridor: timed along the routes to the hub
+   */
+  source: "estimate" | "matrix" | "crow" | "corridor";
+
+  /** Where the pub lies along the routes (corridor mode only) */
+  corridor?: CorridorPlacement;
+
+  /** Route alternatives whose meeting point this pub is near (journey mode only) */
+  alternatives?: number[];
+}
+
+/**
+ * A circle around a meeting point that was searched for pubs
+ */
+export interface SearchArea {
+  /** Meeting point at the centre [lng, lat] */
+  center: [number, number];
+
+  /** Radius that was searched in meters */
+  radius: number;
+}
+
+/**
+ * One way of routing the whole group to the hub
+ * Alternative N uses each participant's Nth suggested route
+ */
+export interface RouteAlternative {
+  /** Index of the alternative (0 = the preferred routes) */
+  index: number;
+
+  /**
+   * Route steps from each participant to the hub. Participants with fewer
+   * alternatives keep their preferred route.
+   */
+  steps: RouteStep[][];
+
+  /** Meeting point along these routes [lng, lat], null if it can't be found */
+  midPoint: [number, number] | null;
+}
+
+/**
+ * One walk of a pub crawl, from the previous stop to the next
+ */
+export interface CrawlLeg {
+  /** Pub at the end of the leg, null for the final leg to the second person */
+  pub: PubFeature | null;
+
+  /** Route steps of the leg */
+  steps: RouteStep[];
+
+  /** Walking time in seconds */
+  duration: number;
+
+  /** Walking distance in meters */
+  distance: number;
+}
+
+/**
+ * A walking route from the first person to the second via several pubs
+ */
+export interface PubCrawl {
+  /** Pubs to visit, in order */
+  stops: PubFeature[];
+
+  /** Every leg of the walk, one more than there are stops */
+  legs: CrawlLeg[];
+
+  /** Walking time of the whole crawl in seconds */
+  totalDuration: number;
+
+  /** Walking distance of the whole crawl in meters */
+  totalDistance: number;
+}
@@ -132,6 +132,110 @@ export interface PubFilters {
   ward?: string;
 }
 
+/**
+ * Where the served pubs came from
+ * - live: fetched from the London GIS server by this server
+ * - bundled: the snapshot committed to the repo (data/pubs.geojson)
+ * - seed: a handful of sample pubs committed in place of a snapshot
+ */
+export type PubDataSource = 'live' | 'bundled' | 'seed';
+
+/**
+ * Provenance of the served pubs, shown to the user
+ */
+export interface PubDataSourceInfo {
+  source: PubDataSource;
+  /** When the pubs were fetched from the London GIS server (RFC 3339) */
+  fetchedAt: string;
+}
+
+/**
+ * Facts about a pub dataset snapshot
+ */
+export interface PubDatasetMetadata {
+  /** Snapshot format version, bumped when the file layout changes */
+  schemaVersion: number;
+  /** Layer the pubs were read from */
+  sourceUrl: string;
+  /** When the layer was fetched (RFC 3339) */
+  fetchedAt: string;
+  /** Number of pubs in the snapshot */
+  count: number;
+  /** Set on the hand-written sample shipped until a real snapshot is committed */
+  seed?: boolean;
+}
+
+/**
+ * Validated, normalised pubs with their provenance
+ * Stored in the repo by the ingestion script (scripts/ingest-pubs.ts)
+ */
+export interface PubDataset extends PubFeatureCollection {
+  metadata: PubDatasetMetadata;
+}
+
+/**
+ * Kinds of change between two pub snapshots
+ * - added/removed: the pub appeared in or disappeared from the layer
+ * - reopened/closed: its open_status changed
+ * - renamed/moved: its name or location changed
+ */
+export type PubChangeType =
+  | 'added'
+  | 'removed'
+  | 'reopened'
+  | 'closed'
+  | 'renamed'
+  | 'moved';
+
+/**
+ * One change to one pub
+ * A pub that was renamed and moved has a change of each type
+ */
+export interface PubChange {
+  type: PubChangeType;
+  /** The pub after the change, or as it last was when removed */
+  pub: PubFeature;
+  /** Name before a rename */
+  previousName?: string;
+  /** Location before a move [longitude, latitude] */
+  previousCoordinates?: [number, number];
+  /** How far the pub moved (meters) */
+  distance?: number;
+}
+
+/**
+ * Changes between two snapshots of the pubs layer
+ */
+export interface PubChangeSet {
+  /** When the older snapshot was fetched (RFC 3339) */
+  from: string;
+  /** When the newer snapshot was fetched (RFC 3339) */
+  to: string;
+  changes: PubChange[];
+}
+
+/**
+ * Response from /api/pubs/changes
+ */
+export interface PubChangesAPIResponse {
+  success: boolean;
+  /** Change sets, newest first */
+  data?: PubChangeSet[];
+  error?: string;
+}
+
+/**
+ * Response from /api/pubs
+ */
+export interface PubsAPIResponse {
+  success: boolean;
+  /** Pubs matching the filters */
+  data?: PubFeatureCollection;
+  /** Where the pubs came from and when they were fetched */
+  source?: PubDataSourceInfo;
+  error?: string;
+}
+
 /**
  * Pub search result with relevance score
  */
@@ -1,6 +1,8 @@
 // Google Maps Routes API Types
 // Prefixed with "Google" to avoid conflicts with Mapbox types in map.ts
 
+import type { RouteErrorCode } from "./routing";
+
 export interface GoogleLatLng {
   latitude: number;
   longitude: number;
@@ -114,6 +116,24 @@ export interface GoogleRouteLegStepLocalizedValues {
   staticDuration?: GoogleLocalizedText;
 }
 
+export interface GoogleTransitVehicle {
+  name?: GoogleLocalizedText;
+  type?: string;
+}
+
+export interface GoogleTransitLine {
+  name?: string;
+  nameShort?: string;
+  color?: string;
+  vehicle?: GoogleTransitVehicle;
+}
+
+export interface GoogleTransitDetails {
+  headsign?: string;
+  stopCount?: number;
+  transitLine?: GoogleTransitLine;
+}
+
 export interface GoogleRouteLegStep {
   distanceMeters?: number;
   staticDuration?: string;
@@ -123,6 +143,7 @@ export interface GoogleRouteLegStep {
   navigationInstruction?: GoogleNavigationInstruction;
   localizedValues?: GoogleRouteLegStepLocalizedValues;
   travelMode?: GoogleRouteTravelMode;
+  transitDetails?: GoogleTransitDetails;
 }
 
 export interface GoogleRouteLegLocalizedValues {
@@ -195,29 +216,119 @@ export interface GoogleComputeRoutesResponse {
   geocodingResults?: GoogleGeocodingResults;
 }
 
-// Simplified request/response for our API
-export interface GoogleRouteRequestParams {
-  originLat: number;
-  originLng: number;
-  destinationLat: number;
-  destinationLng: number;
+// Route Matrix request types
+export interface GoogleRouteMatrixOrigin {
+  waypoint: GoogleWaypoint;
+}
+
+export interface GoogleRouteMatrixDestination {
+  waypoint: GoogleWaypoint;
+}
+
+export interface GoogleComputeRouteMatrixRequest {
+  origins: GoogleRouteMatrixOrigin[];
+  destinations: GoogleRouteMatrixDestination[];
   travelMode?: GoogleRouteTravelMode;
   routingPreference?: GoogleRoutingPreference;
+  departureTime?: string;
+  arrivalTime?: string;
+  languageCode?: string;
+  regionCode?: string;
   units?: GoogleUnits;
-  computeAlternativeRoutes?: boolean;
-  avoidTolls?: boolean;
-  avoidHighways?: boolean;
-  avoidFerries?: boolean;
 }
 
-export interface GoogleRouteAPIResponse {
+// Route Matrix response types
+export type GoogleRouteMatrixElementCondition =
+  | "ROUTE_MATRIX_ELEMENT_CONDITION_UNSPECIFIED"
+  | "ROUTE_EXISTS"
+  | "ROUTE_NOT_FOUND";
+
+export interface GoogleRpcStatus {
+  code?: number;
+  message?: string;
+}
+
+// Note: Google omits zero values, so an index of 0 may be missing
+export interface GoogleRouteMatrixElement {
+  originIndex?: number;
+  destinationIndex?: number;
+  status?: GoogleRpcStatus;
+  condition?: GoogleRouteMatrixElementCondition;
+  distanceMeters?: number;
+  duration?: string;
+  staticDuration?: string;
+}
+
+// Simplified request/response for our matrix API
+export interface GoogleRouteMatrixRequestParams {
+  origins: GoogleLatLng[];
+  destinations: GoogleLatLng[];
+  travelMode?: GoogleRouteTravelMode;
+  units?: GoogleUnits;
+  /** RFC 3339 timestamp to leave at - set at most one of the two times */
+  departureTime?: string;
+  /** RFC 3339 timestamp to arrive by (only used for TRANSIT) */
+  arrivalTime?: string;
+}
+
+export interface GoogleRouteMatrixAPIResponse {
   success: boolean;
-  data?: GoogleComputeRoutesResponse;
+  data?: GoogleRouteMatrixElement[];
   error?: string;
+  /** Why the request failed */
+  code?: RouteErrorCode;
+  /** Seconds until routing is available again, when rate limited or out of budget */
+  retryAfter?: number;
+}
+
+/**
+ * Transport mode chosen in the search panel
+ */
+export type TransportMode = "transit" | "walking" | "cycling";
+
+/**
+ * How the meeting point is found
+ * - journey: balance routed journey times (uses the routing API)
+ * - crow: geodesic midpoint "as the crow flies" (no routing API calls)
+ * - isochrone: the area everyone can reach within a time budget
+ * - corridor: anywhere along the routes, ideally near the middle
+ */
+export type MidpointMode = "journey" | "crow" | "isochrone" | "corridor";
+
+/**
+ * Where a participant starts and how they travel
+ */
+export interface RouteOrigin {
+  /** Starting location [lng, lat] */
+  point: [number, number];
+  mode: TransportMode;
+  /** Share of the travel this participant takes on relative to the others (default 1) */
+  weight?: number;
+}
+
+/**
+ * When the group plans to travel
+ * - departure: everyone leaves at the given time
+ * - arrival: everyone arrives by the given time
+ */
+export type JourneyTimeType = "departure" | "arrival";
+
+export interface JourneyTime {
+  type: JourneyTimeType;
+  /** RFC 3339 timestamp */
+  time: string;
 }
 
 export interface IRouteRequestParams {
-  pointA: [number, number];
-  pointB: [number, number];
-  mode: "transit" | "walking" | "cycling";
+  /** Starting location and transport mode of every participant */
+  participants: RouteOrigin[];
+  midpointMode: MidpointMode;
+  /** When to leave or arrive by, leaving now when unset */
+  journeyTime?: JourneyTime;
+  /** Travel time budget in minutes for the isochrone mode */
+  isochroneMinutes?: number;
+  /** Distance from the routes in meters for the corridor mode */
+  corridorWidth?: number;
+  /** Number of pubs to visit on a crawl between two participants, no crawl when unset */
+  crawlStops?: number;
 }
@@ -0,0 +1,133 @@
+/**
+ * Routing Types
+ * Provider-independent route model shared by every routing backend
+ */
+
+import type {
+  GoogleLatLng,
+  GoogleRouteTravelMode,
+  GoogleRoutingPreference,
+  GoogleUnits,
+} from "./routes";
+
+/**
+ * Routing backends the routes API can use
+ * - google: Google Routes API (every travel mode, including transit)
+ * - mapbox: Mapbox Directions API (walking, cycling and driving only)
+ * - local: synthetic straight-line routes for development and tests (no network)
+ */
+export type RoutingProviderName = "google" | "mapbox" | "local";
+
+/**
+ * Machine-readable reasons a routes API request failed
+ * - INVALID_REQUEST: malformed or inconsistent parameters
+ * - OUT_OF_AREA: a location is too far outside London
+ * - NO_ROUTE: the places can't be connected in the travel mode
+ * - RATE_LIMITED: the client sent too many requests
+ * - BUDGET_EXHAUSTED: our daily or monthly routing budget is spent
+ * - UPSTREAM_QUOTA: every routing provider is out of quota
+ * - UPSTREAM_TIMEOUT: the routing provider took too long to answer
+ * - UPSTREAM_ERROR: the routing provider failed in another way
+ * - FIXTURE_MISSING: replaying fixtures, and none was recorded for the request
+ * - INTERNAL_ERROR: anything else
+ */
+export type RouteErrorCode =
+  | "INVALID_REQUEST"
+  | "OUT_OF_AREA"
+  | "NO_ROUTE"
+  | "RATE_LIMITED"
+  | "BUDGET_EXHAUSTED"
+  | "UPSTREAM_QUOTA"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_ERROR"
+  | "FIXTURE_MISSING"
+  | "INTERNAL_ERROR";
+
+/**
+ * One instruction of a route, travelled in a single mode
+ */
+export interface RouteStep {
+  /** Path of the step [lng, lat] */
+  coordinates: [number, number][];
+
+  /** Distance in meters */
+  distance: number;
+
+  /** Duration in seconds */
+  duration: number;
+
+  /**
+   * How the step is travelled - WALK, BICYCLE or DRIVE, or the transit
+   * vehicle (BUS, TRAIN, SUBWAY...) when known, otherwise TRANSIT
+   */
+  travelMode: string;
+
+  /** Instruction text */
+  instruction?: string;
+}
+
+/**
+ * Part of a route between two waypoints
+ */
+export interface RouteLeg {
+  /** Distance in meters */
+  distance: number;
+
+  /** Duration in seconds */
+  duration: number;
+
+  /** Steps of the leg in order */
+  steps: RouteStep[];
+}
+
+/**
+ * A complete route from the origin to the destination
+ */
+export interface Route {
+  /** Distance in meters */
+  distance: number;
+
+  /** Duration in seconds */
+  duration: number;
+
+  /** One leg per intermediate stop plus one */
+  legs: RouteLeg[];
+}
+
+/**
+ * Request body of the routes API
+ */
+export interface RouteRequestParams {
+  originLat: number;
+  originLng: number;
+  destinationLat: number;
+  destinationLng: number;
+  travelMode?: GoogleRouteTravelMode;
+  routingPreference?: GoogleRoutingPreference;
+  units?: GoogleUnits;
+  computeAlternativeRoutes?: boolean;
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  avoidFerries?: boolean;
+  /** RFC 3339 timestamp to leave at - set at most one of the two times */
+  departureTime?: string;
+  /** RFC 3339 timestamp to arrive by (only used for TRANSIT) */
+  arrivalTime?: string;
+  /** Stops to pass through in order, one leg each (not supported for TRANSIT) */
+  intermediates?: GoogleLatLng[];
+  /** Backend to route with first (google by default) */
+  provider?: RoutingProviderName;
+}
+
+export interface RouteAPIResponse {
+  success: boolean;
+  /** Suggested routes, preferred route first */
+  data?: Route[];
+  /** Backend that produced the routes */
+  provider?: RoutingProviderName;
+  error?: string;
+  /** Why the request failed */
+  code?: RouteErrorCode;
+  /** Seconds until routing is available again, when rate limited or out of budget */
+  retryAfter?: number;
+}
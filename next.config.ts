@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Read at runtime by the pub snapshot when London GIS is down, and by the
+  // pub changes API
+  outputFileTracingIncludes: {
+    "/api/pubs": ["./data/pubs.geojson"],
+    "/api/pubs/changes": ["./data/pub-changes.json"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,116 @@
+/**
+ * Pub Dataset Ingestion
+ * Fetches the London GIS pubs layer, validates and normalises it, and
+ * writes the snapshot the app falls back to when the server is down.
+ *
+ * Changes since the previous snapshot are added to the changelog.
+ *
+ * Run from the project root with `pnpm ingest:pubs`, then commit
+ * data/pubs.geojson and data/pub-changes.json.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  LONDON_GIS_API,
+  PUB_CHANGES_CONFIG,
+  PUB_DATASET_CONFIG,
+} from "@/lib/constants";
+import { fetchAllPubs } from "@/lib/services/londonGIS";
+import { readPubChangelog } from "@/lib/services/pubChanges";
+import {
+  isPubDataset,
+  normalizePubDataset,
+  serializePubDataset,
+} from "@/lib/utils/pubDataset";
+import { diffPubs } from "@/lib/utils/pubDiff";
+import type { PubDataset } from "@/types/pub";
+
+/**
+ * Read the snapshot being replaced, if there is one
+ */
+async function readPreviousDataset(
+  filePath: string
+): Promise<PubDataset | null> {
+  try {
+    const dataset: unknown = JSON.parse(await readFile(filePath, "utf8"));
+    return isPubDataset(dataset) ? dataset : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add the changes since the previous snapshot to the changelog
+ */
+async function updateChangelog(previous: PubDataset, dataset: PubDataset) {
+  const changes = diffPubs(previous.features, dataset.features);
+  if (changes.length === 0) {
+    console.log("No changes since the previous snapshot");
+    return;
+  }
+
+  const changelogPath = path.resolve(process.cwd(), PUB_CHANGES_CONFIG.PATH);
+  const changeSets = [
+    {
+      from: previous.metadata.fetchedAt,
+      to: dataset.metadata.fetchedAt,
+      changes,
+    },
+    ...(await readPubChangelog(changelogPath)),
+  ];
+  await writeFile(changelogPath, `${JSON.stringify(changeSets, null, 2)}\n`);
+
+  const counts = new Map<string, number>();
+  changes.forEach(({ type }) => counts.set(type, (counts.get(type) ?? 0) + 1));
+  console.log(
+    `Changes since ${previous.metadata.fetchedAt}: ${[...counts]
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ")}`
+  );
+}
+
+async function main() {
+  const fetchedAt = new Date();
+  const pubs = await fetchAllPubs();
+  const { dataset, rejected } = normalizePubDataset(
+    pubs,
+    LONDON_GIS_API.PUBS_QUERY_URL,
+    fetchedAt
+  );
+
+  rejected.forEach(({ objectid, reason }) =>
+    console.warn(`Skipped pub ${objectid ?? "?"}: ${reason}`)
+  );
+
+  // A layer that is mostly broken is a bad fetch, not a dataset to commit
+  const rejectedShare = rejected.length / Math.max(1, pubs.features.length);
+  if (
+    dataset.features.length === 0 ||
+    rejectedShare > PUB_DATASET_CONFIG.MAX_REJECTED_SHARE
+  ) {
+    throw new Error(
+      `Refusing to write ${dataset.features.length} pubs with ${rejected.length} rejected`
+    );
+  }
+
+  const outputPath = path.resolve(process.cwd(), PUB_DATASET_CONFIG.PATH);
+  const previous = await readPreviousDataset(outputPath);
+
+  await mkdir(path.dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, serializePubDataset(dataset));
+
+  // The seed's sample pubs aren't layer data, so replacing them isn't a change
+  if (previous && !previous.metadata.seed) {
+    await updateChangelog(previous, dataset);
+  }
+
+  console.log(
+    `Wrote ${dataset.features.length} pubs (${rejected.length} skipped) to ${PUB_DATASET_CONFIG.PATH}`
+  );
+}
+
+main().catch((error) => {
+  console.error("Pub ingestion failed:", error);
+  process.exit(1);
+});